@@ -0,0 +1,142 @@
+import { parseDiff } from '../src/parser';
+import { applyHunksToContent, applyHunksToFiles } from '../src/apply';
+
+const original = Array.from({ length: 12 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+const diff = parseDiff(`diff --git a/f.txt b/f.txt
+--- a/f.txt
++++ b/f.txt
+@@ -1,3 +1,4 @@
+ line 1
++inserted
+ line 2
+ line 3
+@@ -8,3 +9,3 @@
+ line 8
+-line 9
++changed 9
+ line 10
+`);
+const [first, second] = diff.getAllHunks();
+
+const patched = original.replace('line 1\n', 'line 1\ninserted\n').replace('line 9\n', 'changed 9\n');
+
+describe('applyHunksToContent', () => {
+  it('applies hunks at their stated positions', () => {
+    const result = applyHunksToContent(original, [second, first]);
+    expect(result.success).toBe(true);
+    expect(result.content).toBe(patched);
+    expect(result.hunks).toEqual([
+      { hunkId: 'f.txt:1', status: 'applied' },
+      { hunkId: 'f.txt:0', status: 'applied' },
+    ]);
+  });
+
+  it('finds hunks that moved, and reports the offset', () => {
+    const shifted = 'extra a\nextra b\n' + original;
+    const result = applyHunksToContent(shifted, [second]);
+    expect(result.hunks).toEqual([{ hunkId: 'f.txt:1', status: 'applied-with-offset', offset: 2 }]);
+    expect(result.content).toBe('extra a\nextra b\n' + original.replace('line 9\n', 'changed 9\n'));
+  });
+
+  it('limits the search with maxOffset', () => {
+    const shifted = 'extra a\nextra b\n' + original;
+    const result = applyHunksToContent(shifted, [second], { maxOffset: 1 });
+    expect(result.success).toBe(false);
+    expect(result.hunks[0]).toMatchObject({ status: 'rejected', reason: expect.stringContaining('within 1 lines') });
+    expect(result.content).toBe(shifted);
+  });
+
+  it('drops context lines with fuzz', () => {
+    const edited = original.replace('line 10\n', 'line ten\n');
+    expect(applyHunksToContent(edited, [second]).hunks[0].status).toBe('rejected');
+
+    const result = applyHunksToContent(edited, [second], { fuzz: 1 });
+    expect(result.hunks[0]).toEqual({ hunkId: 'f.txt:1', status: 'applied', fuzz: 1 });
+    expect(result.content).toBe(edited.replace('line 9\n', 'changed 9\n'));
+  });
+
+  it('applies in reverse', () => {
+    const result = applyHunksToContent(patched, [first, second], { reverse: true });
+    expect(result.success).toBe(true);
+    expect(result.content).toBe(original);
+  });
+
+  it('keeps applying after a rejected hunk', () => {
+    const result = applyHunksToContent(original.replace('line 2\n', 'other\n'), [first, second]);
+    expect(result.hunks.map(h => h.status)).toEqual(['rejected', 'applied']);
+    expect(result.content).toContain('changed 9');
+  });
+
+  it('handles missing newlines at the end of the file', () => {
+    const eof = parseDiff(`diff --git a/f.txt b/f.txt
+--- a/f.txt
++++ b/f.txt
+@@ -1,2 +1,2 @@
+ a
+-b
+\\ No newline at end of file
++c
+`);
+    expect(applyHunksToContent('a\nb', eof.getAllHunks()).content).toBe('a\nc\n');
+    expect(applyHunksToContent('a\nb\n', eof.getAllHunks()).success).toBe(false);
+    expect(applyHunksToContent('a\nc\n', eof.getAllHunks(), { reverse: true }).content).toBe('a\nb');
+  });
+});
+
+describe('applyHunksToFiles', () => {
+  const files = parseDiff(`diff --git a/old.txt b/new.txt
+similarity index 80%
+rename from old.txt
+rename to new.txt
+--- a/old.txt
++++ b/new.txt
+@@ -1,2 +1,2 @@
+-x
++y
+ z
+diff --git a/added.txt b/added.txt
+new file mode 100644
+--- /dev/null
++++ b/added.txt
+@@ -0,0 +1 @@
++hello
+diff --git a/gone.txt b/gone.txt
+deleted file mode 100644
+--- a/gone.txt
++++ /dev/null
+@@ -1 +0,0 @@
+-bye
+`);
+
+  it('creates, deletes and renames files', () => {
+    const result = applyHunksToFiles({ 'old.txt': 'x\nz\n', 'gone.txt': 'bye\n', 'other.txt': 'same\n' }, files.getAllHunks());
+    expect(result.success).toBe(true);
+    expect(result.files).toEqual({
+      'old.txt': null,
+      'new.txt': 'y\nz\n',
+      'added.txt': 'hello\n',
+      'gone.txt': null,
+      'other.txt': 'same\n',
+    });
+    expect(result.hunks.map(h => h.hunkId)).toEqual(['new.txt:rename', 'new.txt:0', 'added.txt:0', 'gone.txt:0']);
+  });
+
+  it('undoes them in reverse', () => {
+    const result = applyHunksToFiles({ 'new.txt': 'y\nz\n', 'added.txt': 'hello\n' }, files.getAllHunks(), { reverse: true });
+    expect(result.files).toEqual({ 'new.txt': null, 'old.txt': 'x\nz\n', 'added.txt': null, 'gone.txt': 'bye\n' });
+  });
+
+  it('rejects hunks for missing files and binary units', () => {
+    const binary = parseDiff(`diff --git a/logo.png b/logo.png
+index 1111111..2222222 100644
+Binary files a/logo.png and b/logo.png differ
+`);
+    const result = applyHunksToFiles({ 'logo.png': '' }, [...binary.getAllHunks(), files.getHunk('new.txt:0')!]);
+    expect(result.success).toBe(false);
+    expect(result.hunks.map(h => h.reason)).toEqual([
+      'binary patches can only be applied by git',
+      'old.txt does not exist',
+    ]);
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * In-memory patch application
+ *
+ * Applies hunks to file contents without git, the way `patch` and
+ * `git apply` do: each hunk is looked for at its stated position, then at
+ * growing offsets around it, and with fuzz, with up to that many context
+ * lines dropped from its ends. Useful for previewing a selection, checking
+ * a plan before touching the index, and testing without a repository.
+ */
+
+import { DiffLine, Hunk } from './types.js';
+import { FileLines, splitFileLines } from './context.js';
+
+/**
+ * Options for applying hunks
+ */
+export interface ApplyOptions {
+  /** Undo the hunks instead of applying them (default: false) */
+  reverse?: boolean;
+  /** Context lines that may be dropped from each end of a hunk that doesn't match, as with patch -F (default: 0) */
+  fuzz?: number;
+  /** Furthest a hunk may be found from its stated position, in lines (default: unlimited) */
+  maxOffset?: number;
+}
+
+/**
+ * What happened to one hunk
+ */
+export interface HunkApplyResult {
+  hunkId: string;
+  status: 'applied' | 'applied-with-offset' | 'rejected';
+  /** Lines between the stated and the actual position (positive: further down) */
+  offset?: number;
+  /** Context lines dropped to make the hunk match */
+  fuzz?: number;
+  /** Why the hunk was rejected */
+  reason?: string;
+}
+
+/**
+ * Result of applying hunks to one file's content
+ */
+export interface ContentApplyResult {
+  /** Whether every hunk applied */
+  success: boolean;
+  /** The content with every hunk that applied */
+  content: string;
+  /** One result per hunk, in the order given */
+  hunks: HunkApplyResult[];
+}
+
+/**
+ * Result of applying hunks to a set of files
+ */
+export interface FilesApplyResult {
+  /** Whether every hunk applied */
+  success: boolean;
+  /** Every file, patched; null for files the hunks delete */
+  files: Record<string, string | null>;
+  /** One result per hunk, in the order given */
+  hunks: HunkApplyResult[];
+}
+
+/**
+ * One side of a hunk, ready to be matched
+ */
+interface HunkSides {
+  /** Lines the hunk expects to find (context and removals) */
+  before: DiffLine[];
+  /** Lines it leaves in their place (context and additions) */
+  after: DiffLine[];
+  /** 0-based index where `before` should start */
+  position: number;
+  /** Context lines before the first change and after the last */
+  leading: number;
+  trailing: number;
+}
+
+/**
+ * Apply the text hunks of one file to its content
+ *
+ * Hunks are applied in file order, each searched for no earlier than the
+ * end of the one before. Rejected hunks are left out of the content.
+ */
+export function applyHunksToContent(content: string, hunks: Hunk[], options: ApplyOptions = {}): ContentApplyResult {
+  const { reverse = false, fuzz = 0, maxOffset = Infinity } = options;
+  const file = splitFileLines(content)!;
+  const results = new Map<Hunk, HunkApplyResult>();
+
+  const start = (h: Hunk) => (reverse ? h.newStart : h.oldStart);
+  const ordered = [...hunks].sort((a, b) => start(a) - start(b));
+
+  // Net lines added so far, and how far off the last hunk was found
+  let delta = 0;
+  let lastOffset = 0;
+  // Lines before this index have been written by earlier hunks
+  let floor = 0;
+
+  for (const hunk of ordered) {
+    const unsupported = unsupportedReason(hunk);
+    if (unsupported) {
+      results.set(hunk, { hunkId: hunk.id, status: 'rejected', reason: unsupported });
+      continue;
+    }
+
+    const sides = toSides(hunk, reverse);
+    const expected = sides.position + delta;
+    const match = findMatch(file, sides, expected + lastOffset, floor, fuzz, maxOffset);
+    if (!match) {
+      results.set(hunk, {
+        hunkId: hunk.id,
+        status: 'rejected',
+        reason: `does not match at line ${expected + 1}${fuzz > 0 ? ` with fuzz ${fuzz}` : ''}${Number.isFinite(maxOffset) ? ` or within ${maxOffset} lines` : ' or anywhere after the previous hunk'}`,
+      });
+      continue;
+    }
+
+    const { position, before, after, fuzz: usedFuzz } = match;
+    const reachesEnd = position + before.length === file.lines.length;
+    file.lines.splice(position, before.length, ...after.map(l => l.content));
+    if (reachesEnd) {
+      file.endsWithNewline = !after.some(l => l.noNewlineAtEof);
+    }
+
+    // The offset is measured where the untrimmed hunk would start
+    const offset = position - usedFuzz.leading - expected;
+    results.set(hunk, {
+      hunkId: hunk.id,
+      status: offset === 0 ? 'applied' : 'applied-with-offset',
+      ...(offset !== 0 ? { offset } : {}),
+      ...(usedFuzz.leading + usedFuzz.trailing > 0 ? { fuzz: Math.max(usedFuzz.leading, usedFuzz.trailing) } : {}),
+    });
+    delta += after.length - before.length;
+    lastOffset = offset;
+    floor = position + after.length;
+  }
+
+  const hunkResults = hunks.map(h => results.get(h)!);
+  return {
+    success: hunkResults.every(r => r.status !== 'rejected'),
+    content: joinFileLines(file),
+    hunks: hunkResults,
+  };
+}
+
+/**
+ * Apply hunks to a set of files, keyed by path
+ *
+ * Follows the files' headers: new files start out empty, deleted files are
+ * removed once emptied, and hunks carrying a rename or copy move or copy
+ * their file. Mode changes are accepted and have no effect on content;
+ * binary and submodule units are rejected. Files no hunk touches are
+ * passed through.
+ */
+export function applyHunksToFiles(
+  files: Record<string, string>,
+  hunks: Hunk[],
+  options: ApplyOptions = {},
+): FilesApplyResult {
+  const { reverse = false } = options;
+  const output: Record<string, string | null> = { ...files };
+  const results = new Map<Hunk, HunkApplyResult>();
+
+  const byFile = new Map<string, Hunk[]>();
+  for (const hunk of hunks) {
+    const existing = byFile.get(hunk.file) ?? [];
+    existing.push(hunk);
+    byFile.set(hunk.file, existing);
+  }
+
+  for (const [file, fileHunks] of byFile) {
+    const header = fileHunks.find(h => h.fileHeader)?.fileHeader;
+    const oldFile = fileHunks.find(h => h.oldFile)?.oldFile ?? file;
+    const [source, target] = reverse ? [file, oldFile] : [oldFile, file];
+    // Going forwards the file is created by a new-file diff; backwards, by a deleted-file one
+    const creates = reverse ? header?.isDeleted : header?.isNew;
+    const deletes = reverse ? header?.isNew : header?.isDeleted;
+
+    const content = files[source] ?? (creates ? '' : undefined);
+    if (content === undefined) {
+      for (const hunk of fileHunks) {
+        results.set(hunk, { hunkId: hunk.id, status: 'rejected', reason: `${source} does not exist` });
+      }
+      continue;
+    }
+
+    // Mode, rename and copy units change no content
+    const contentHunks = fileHunks.filter(h => !h.kind || h.kind === 'binary' || h.kind === 'submodule');
+    for (const hunk of fileHunks.filter(h => !contentHunks.includes(h))) {
+      results.set(hunk, { hunkId: hunk.id, status: 'applied' });
+    }
+
+    const applied = applyHunksToContent(content, contentHunks, options);
+    contentHunks.forEach((hunk, i) => results.set(hunk, applied.hunks[i]));
+
+    if (source !== target && !header?.isCopied) {
+      output[source] = null;
+    }
+    output[target] = deletes && applied.content === '' ? null : applied.content;
+  }
+
+  const hunkResults = hunks.map(h => results.get(h)!);
+  return {
+    success: hunkResults.every(r => r.status !== 'rejected'),
+    files: output,
+    hunks: hunkResults,
+  };
+}
+
+/**
+ * Why a hunk can't be applied to text, if it can't
+ */
+function unsupportedReason(hunk: Hunk): string | undefined {
+  if (hunk.kind === 'binary') return 'binary patches can only be applied by git';
+  if (hunk.kind === 'submodule') return 'submodule pointers are not file content';
+  if (hunk.parentRanges) return 'combined diff hunks describe a merge and cannot be applied';
+  return undefined;
+}
+
+/**
+ * Split a hunk into the lines it expects and the lines it leaves
+ */
+function toSides(hunk: Hunk, reverse: boolean): HunkSides {
+  const removed = reverse ? 'add' : 'remove';
+  const before = hunk.lines.filter(l => l.type !== (reverse ? 'remove' : 'add'));
+  const after = hunk.lines.filter(l => l.type !== removed);
+
+  const start = reverse ? hunk.newStart : hunk.oldStart;
+  const count = reverse ? hunk.newCount : hunk.oldCount;
+  // "@@ -5,0 ..." inserts after line 5
+  const position = count === 0 ? start : start - 1;
+
+  const firstChange = hunk.lines.findIndex(l => l.type !== 'context');
+  const lastChange = hunk.lines.length - 1 - [...hunk.lines].reverse().findIndex(l => l.type !== 'context');
+  const leading = firstChange === -1 ? hunk.lines.length : firstChange;
+  const trailing = firstChange === -1 ? 0 : hunk.lines.length - 1 - lastChange;
+
+  return { before, after, position: Math.max(position, 0), leading, trailing };
+}
+
+/**
+ * Find where a hunk's lines are, searching outwards from `expected`
+ * With fuzz, drops up to that many context lines from each end before searching again.
+ */
+function findMatch(
+  file: FileLines,
+  sides: HunkSides,
+  expected: number,
+  floor: number,
+  fuzz: number,
+  maxOffset: number,
+): { position: number; before: DiffLine[]; after: DiffLine[]; fuzz: { leading: number; trailing: number } } | null {
+  for (let level = 0; level <= fuzz; level++) {
+    const leading = Math.min(level, sides.leading);
+    const trailing = Math.min(level, sides.trailing);
+    if (level > 0 && leading === 0 && trailing === 0) break;
+
+    const before = sides.before.slice(leading, sides.before.length - trailing);
+    const after = sides.after.slice(leading, sides.after.length - trailing);
+    // As in git apply: a hunk starting at the top of the file, or with
+    // context only before its changes, is tied to that end of the file
+    const matchStart = level === 0 && sides.position === 0 && sides.leading === 0 && sides.trailing > 0;
+    const matchEnd = level === 0 && sides.trailing === 0 && sides.leading > 0;
+
+    const limit = Math.max(file.lines.length, expected);
+    for (let distance = 0; distance <= Math.min(maxOffset, limit); distance++) {
+      for (const position of distance === 0 ? [expected] : [expected - distance, expected + distance]) {
+        const at = position + leading;
+        if (at < floor || at + before.length > file.lines.length) continue;
+        if (matchStart && at !== 0) continue;
+        if (matchEnd && at + before.length !== file.lines.length) continue;
+        if (matchesAt(file, before, at)) {
+          return { position: at, before, after, fuzz: { leading, trailing } };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether `lines` are in the file at `position`, end-of-file markers included
+ */
+function matchesAt(file: FileLines, lines: DiffLine[], position: number): boolean {
+  for (let i = 0; i < lines.length; i++) {
+    if (file.lines[position + i] !== lines[i].content) return false;
+  }
+  const last = lines[lines.length - 1];
+  if (last?.noNewlineAtEof) {
+    return position + lines.length === file.lines.length && !file.endsWithNewline;
+  }
+  return true;
+}
+
+/**
+ * Join lines back into file content
+ */
+function joinFileLines(file: FileLines): string {
+  if (file.lines.length === 0) return '';
+  return file.lines.join('\n') + (file.endsWithNewline ? '\n' : '');
+}
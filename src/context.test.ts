@@ -0,0 +1,127 @@
+import { parseDiff } from '../src/parser';
+import { recontextDiff, recontextFile } from '../src/context';
+import { ContentProvider } from '../src/types';
+
+// A ten-line file, lines "l1".."l10"
+const oldLines = Array.from({ length: 10 }, (_, i) => `l${i + 1}`);
+const oldContent = oldLines.join('\n') + '\n';
+
+const provider: ContentProvider = {
+  readFile: (_path, version) => version === 'old' ? oldContent : null,
+};
+
+// l2 changed, l8 removed: two hunks at -U1
+const twoChanges = `diff --git a/f.txt b/f.txt
+--- a/f.txt
++++ b/f.txt
+@@ -1,3 +1,3 @@
+ l1
+-l2
++L2
+ l3
+@@ -7,3 +7,2 @@ section
+ l7
+-l8
+ l9
+`;
+
+describe('recontextFile', () => {
+  it('shrinks context to zero lines', () => {
+    // The second hunk no longer starts at l7, so "section" may not be its function any more
+    const file = recontextFile(parseDiff(twoChanges).files[0], 0);
+    expect(file.hunks.map(h => h.header)).toEqual([
+      '@@ -2,1 +2,1 @@',
+      '@@ -8,1 +7,0 @@',
+    ]);
+    expect(file.hunks[1].lines).toEqual([{ type: 'remove', content: 'l8' }]);
+    expect(file.hunks.map(h => h.id)).toEqual(['f.txt:0', 'f.txt:1']);
+  });
+
+  it('splits a hunk whose changes grow apart', () => {
+    const diff = parseDiff(`diff --git a/f.txt b/f.txt
+--- a/f.txt
++++ b/f.txt
+@@ -1,6 +1,6 @@
+-l1
++L1
+ l2
+ l3
+ l4
+ l5
+-l6
++L6
+`);
+    const file = recontextFile(diff.files[0], 1);
+    expect(file.hunks.map(h => h.header)).toEqual(['@@ -1,2 +1,2 @@', '@@ -5,2 +5,2 @@']);
+    expect(file.hunks[1].lines.map(l => l.content)).toEqual(['l5', 'l6', 'L6']);
+  });
+
+  it('merges hunks when the provider fills the gap', () => {
+    const file = recontextFile(parseDiff(twoChanges).files[0], 3, provider);
+    expect(file.hunks).toHaveLength(1);
+    expect(file.hunks[0].header).toBe('@@ -1,10 +1,9 @@');
+    expect(file.hunks[0].lines.filter(l => l.type === 'context').map(l => l.content))
+      .toEqual(['l1', 'l3', 'l4', 'l5', 'l6', 'l7', 'l9', 'l10']);
+  });
+
+  it('keeps the known context when there is no provider', () => {
+    const file = recontextFile(parseDiff(twoChanges).files[0], 3);
+    expect(file.hunks.map(h => h.header)).toEqual(['@@ -1,3 +1,3 @@', '@@ -7,3 +7,2 @@ section']);
+  });
+
+  it('reads unchanged lines from the new content, shifted past earlier changes', () => {
+    const newProvider: ContentProvider = {
+      readFile: (_path, version) => version === 'new' ? ['l1', 'L2', 'l3', 'l4', 'l5', 'l6', 'l7', 'l9', 'l10'].join('\n') + '\n' : null,
+    };
+    const file = recontextFile(parseDiff(twoChanges).files[0], 2, newProvider);
+    expect(file.hunks.map(h => h.header)).toEqual(['@@ -1,4 +1,4 @@', '@@ -6,5 +6,4 @@']);
+    expect(file.hunks[1].lines.map(l => l.content)).toEqual(['l6', 'l7', 'l8', 'l9', 'l10']);
+  });
+
+  it('marks the last line of a file without a trailing newline', () => {
+    const noNewline: ContentProvider = { readFile: () => 'a\nb\nc' };
+    const diff = parseDiff(`diff --git a/f.txt b/f.txt
+--- a/f.txt
++++ b/f.txt
+@@ -1,1 +1,1 @@
+-a
++A
+`);
+    const file = recontextFile(diff.files[0], 3, noNewline);
+    expect(file.hunks[0].header).toBe('@@ -1,3 +1,3 @@');
+    expect(file.hunks[0].lines[3]).toEqual({ type: 'context', content: 'c', noNewlineAtEof: true });
+  });
+
+  it('leaves new files and whole-file units alone', () => {
+    const diff = parseDiff(`diff --git a/new.txt b/new.txt
+new file mode 100644
+--- /dev/null
++++ b/new.txt
+@@ -0,0 +1,2 @@
++a
++b
+diff --git a/run.sh b/run.sh
+old mode 100644
+new mode 100755
+--- a/run.sh
++++ b/run.sh
+@@ -1,2 +1,2 @@
+-echo hi
++echo hello
+ exit 0
+`);
+    const result = recontextDiff(diff, 0);
+    expect(result.files[0]).toBe(diff.files[0]);
+    expect(result.files[1].hunks.map(h => h.id)).toEqual(['run.sh:mode', 'run.sh:0']);
+    expect(result.files[1].hunks[1].header).toBe('@@ -1,1 +1,1 @@');
+    expect(result.getHunk('run.sh:0')?.stableId).toBe(diff.getHunk('run.sh:0')?.stableId);
+  });
+});
+
+describe('parseDiff with contextLines', () => {
+  it('re-contexts while parsing', () => {
+    const diff = parseDiff(twoChanges, { contextLines: 3, contentProvider: provider });
+    expect(diff.getAllHunks()).toHaveLength(1);
+    expect(diff.getHunk('f.txt:0')?.oldCount).toBe(10);
+  });
+});
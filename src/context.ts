@@ -0,0 +1,269 @@
+/**
+ * Re-contexting hunks
+ *
+ * Rebuilds a file's hunks with a different number of context lines, the
+ * way `git diff -U<n>` would have produced them: changes closer together
+ * than twice the context are merged into one hunk, and hunks that grow
+ * apart are split. Shrinking works from the diff alone; growing needs the
+ * unchanged lines, which come from a ContentProvider.
+ */
+
+import { ContentProvider, DiffLine, FileDiff, Hunk, ParsedDiff } from './types.js';
+import { createParsedDiff } from './parsed-diff.js';
+import { assignStableIds } from './stable-ids.js';
+
+/**
+ * A run of consecutive added/removed lines, positioned in the old file
+ */
+interface ChangeRun {
+  /** Old line number of the first removed line, or of the line the additions go before */
+  oldStart: number;
+  /** Number of removed lines */
+  removed: number;
+  /** Net change in line count before this run (additions minus removals) */
+  offset: number;
+  lines: DiffLine[];
+  /** Function context of the hunk the run came from */
+  context?: string;
+  /** Old line number the hunk the run came from starts at, which its function context is for */
+  contextLine: number;
+}
+
+/**
+ * Rebuild every file of a diff with `contextLines` lines of context
+ */
+export function recontextDiff(diff: ParsedDiff, contextLines: number, provider?: ContentProvider): ParsedDiff {
+  return createParsedDiff(diff.files.map(file => recontextFile(file, contextLines, provider)));
+}
+
+/**
+ * Rebuild a file's text hunks with `contextLines` lines of context
+ *
+ * Whole-file units are kept as they are; binary, combined, new and deleted
+ * files are returned unchanged. Where the context can't be grown because
+ * neither the diff nor the provider has the lines, hunks get as much as
+ * is known.
+ */
+export function recontextFile(file: FileDiff, contextLines: number, provider?: ContentProvider): FileDiff {
+  const textHunks = file.hunks.filter(h => !h.kind);
+  if (textHunks.length === 0 || file.isBinary || file.isCombined || file.isNew || file.isDeleted) {
+    return file;
+  }
+
+  const { runs, known } = collectRuns(textHunks);
+  const lookup = createLineLookup(file, runs, known, provider);
+
+  // Group runs as git does: the unchanged gap between them is at most
+  // twice the context, and every line of it is known
+  const groups: ChangeRun[][] = [];
+  for (const run of runs) {
+    const group = groups[groups.length - 1];
+    const previous = group?.[group.length - 1];
+    const gapStart = previous ? previous.oldStart + previous.removed : 0;
+    if (previous && run.oldStart - gapStart <= 2 * contextLines && allKnown(lookup, gapStart, run.oldStart)) {
+      group.push(run);
+    } else {
+      groups.push([run]);
+    }
+  }
+
+  const template = textHunks[0];
+  const hunks = groups.map((group, index) => buildHunk(file, template, group, index, contextLines, lookup));
+  const rebuilt = [...file.hunks.filter(h => h.kind), ...hunks];
+  assignStableIds(rebuilt);
+  return { ...file, hunks: rebuilt };
+}
+
+/**
+ * Split hunks into change runs, and note the unchanged lines they show
+ */
+function collectRuns(hunks: Hunk[]): { runs: ChangeRun[]; known: Map<number, DiffLine> } {
+  const runs: ChangeRun[] = [];
+  const known = new Map<number, DiffLine>();
+
+  for (const hunk of hunks) {
+    // "@@ -5,0 ..." means "after line 5"
+    const firstLine = hunk.oldCount === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+    let oldLine = firstLine;
+    let run: ChangeRun | null = null;
+
+    for (const line of hunk.lines) {
+      if (line.type === 'context') {
+        known.set(oldLine, line);
+        oldLine++;
+        run = null;
+        continue;
+      }
+      if (!run) {
+        run = { oldStart: oldLine, removed: 0, offset: 0, lines: [], context: hunk.context, contextLine: firstLine };
+        runs.push(run);
+      }
+      run.lines.push(line);
+      if (line.type === 'remove') {
+        run.removed++;
+        oldLine++;
+      }
+    }
+  }
+
+  runs.sort((a, b) => a.oldStart - b.oldStart);
+  let offset = 0;
+  for (const run of runs) {
+    run.offset = offset;
+    offset += run.lines.length - 2 * run.removed;
+  }
+
+  return { runs, known };
+}
+
+/**
+ * Build a lookup for unchanged lines by old line number
+ * Tries the diff's own context, then the old content, then the new content.
+ */
+function createLineLookup(
+  file: FileDiff,
+  runs: ChangeRun[],
+  known: Map<number, DiffLine>,
+  provider?: ContentProvider,
+): (oldLine: number) => DiffLine | undefined {
+  let oldContent: FileLines | null | undefined;
+  let newContent: FileLines | null | undefined;
+
+  return (oldLine) => {
+    const fromDiff = known.get(oldLine);
+    if (fromDiff) return fromDiff;
+    if (!provider || oldLine < 1) return undefined;
+
+    if (oldContent === undefined) {
+      oldContent = splitFileLines(provider.readFile(file.oldPath, 'old'));
+    }
+    if (oldContent) {
+      return contextLineAt(oldContent, oldLine);
+    }
+
+    if (newContent === undefined) {
+      newContent = splitFileLines(provider.readFile(file.newPath, 'new'));
+    }
+    if (newContent) {
+      // Shift by the changes that come before the line
+      const offset = runs
+        .filter(run => run.oldStart + run.removed <= oldLine)
+        .reduce((sum, run) => sum + run.lines.length - 2 * run.removed, 0);
+      return contextLineAt(newContent, oldLine + offset);
+    }
+    return undefined;
+  };
+}
+
+/**
+ * A file's lines, and whether the last one ends with a newline
+ */
+export interface FileLines {
+  lines: string[];
+  endsWithNewline: boolean;
+}
+
+/**
+ * Split file content into lines
+ */
+export function splitFileLines(content: string | null): FileLines | null {
+  if (content === null) return null;
+  if (content === '') return { lines: [], endsWithNewline: true };
+
+  const lines = content.split('\n');
+  const endsWithNewline = lines[lines.length - 1] === '';
+  if (endsWithNewline) lines.pop();
+  return { lines, endsWithNewline };
+}
+
+/**
+ * The context line at a 1-based line number, if the file has it
+ */
+export function contextLineAt(file: FileLines, lineNumber: number): DiffLine | undefined {
+  if (lineNumber < 1 || lineNumber > file.lines.length) return undefined;
+
+  const line: DiffLine = { type: 'context', content: file.lines[lineNumber - 1] };
+  if (lineNumber === file.lines.length && !file.endsWithNewline) {
+    line.noNewlineAtEof = true;
+  }
+  return line;
+}
+
+/**
+ * Check that every old line in [from, to) can be looked up
+ */
+function allKnown(lookup: (oldLine: number) => DiffLine | undefined, from: number, to: number): boolean {
+  for (let oldLine = from; oldLine < to; oldLine++) {
+    if (!lookup(oldLine)) return false;
+  }
+  return true;
+}
+
+/**
+ * Build one hunk from a group of runs, with context around and between them
+ */
+function buildHunk(
+  file: FileDiff,
+  template: Hunk,
+  group: ChangeRun[],
+  index: number,
+  contextLines: number,
+  lookup: (oldLine: number) => DiffLine | undefined,
+): Hunk {
+  const first = group[0];
+  const last = group[group.length - 1];
+  const lines: DiffLine[] = [];
+
+  // Leading context, as far back as known
+  let leading = 0;
+  while (leading < contextLines && lookup(first.oldStart - leading - 1)) {
+    leading++;
+  }
+  for (let oldLine = first.oldStart - leading; oldLine < first.oldStart; oldLine++) {
+    lines.push(lookup(oldLine)!);
+  }
+
+  group.forEach((run, i) => {
+    lines.push(...run.lines);
+    const next = group[i + 1];
+    if (next) {
+      for (let oldLine = run.oldStart + run.removed; oldLine < next.oldStart; oldLine++) {
+        lines.push(lookup(oldLine)!);
+      }
+    }
+  });
+
+  // Trailing context, up to the end of the file
+  const end = last.oldStart + last.removed;
+  for (let oldLine = end; oldLine < end + contextLines; oldLine++) {
+    const line = lookup(oldLine);
+    if (!line) break;
+    lines.push(line);
+  }
+
+  const oldCount = lines.filter(l => l.type !== 'add').length;
+  const newCount = lines.filter(l => l.type !== 'remove').length;
+  const firstOld = first.oldStart - leading;
+  const firstNew = firstOld + first.offset;
+  // An empty side is numbered by the line before it, as in "@@ -5,0 +6,2 @@"
+  const oldStart = oldCount === 0 ? firstOld - 1 : firstOld;
+  const newStart = newCount === 0 ? firstNew - 1 : firstNew;
+  // The function context names the function around the hunk's first line,
+  // so it only still holds if the hunk starts where it did
+  const context = firstOld === first.contextLine ? first.context : undefined;
+
+  return {
+    id: `${file.newPath}:${index}`,
+    file: file.newPath,
+    ...(template.oldFile ? { oldFile: template.oldFile } : {}),
+    index,
+    header: `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@${context ? ' ' + context : ''}`,
+    oldStart,
+    oldCount,
+    newStart,
+    newCount,
+    lines,
+    context,
+    ...(template.fileHeader ? { fileHeader: template.fileHeader } : {}),
+  };
+}
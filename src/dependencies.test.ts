@@ -0,0 +1,93 @@
+import { parseDiff } from '../src/parser';
+import { groupHunks, selectHunksWithLines, splitHunkAtIndices } from '../src/manipulator';
+import { findDependencies, orderGroups } from '../src/dependencies';
+
+const diff = parseDiff(`diff --git a/src/format.ts b/src/format.ts
+--- a/src/format.ts
++++ b/src/format.ts
+@@ -1,3 +1,7 @@
++export function formatDate(date: Date): string {
++  const iso = date.toISOString();
++  return iso.slice(0, 10);
++}
+ export function formatName(name: string): string {
+   return name.trim();
+ }
+diff --git a/src/report.ts b/src/report.ts
+--- a/src/report.ts
++++ b/src/report.ts
+@@ -4,6 +4,8 @@ export function report(entry: Entry): string {
+   const lines = [];
+   lines.push(formatName(entry.name));
++  const iso = 'unrelated';
++  lines.push(formatDate(entry.date));
+   lines.push('---');
+   return lines.join('\\n');
+ }
+`);
+
+describe('findDependencies', () => {
+  it('should find uses of a name another hunk declares', () => {
+    expect(findDependencies(diff.getAllHunks())).toEqual([
+      { from: 'src/format.ts:0', to: 'src/report.ts:0', reason: 'identifier', identifier: 'formatDate' },
+    ]);
+  });
+
+  it('should make a removed declaration wait for the removal of its uses', () => {
+    const removal = parseDiff(`diff --git a/a.py b/a.py
+--- a/a.py
++++ b/a.py
+@@ -1,2 +0,0 @@
+-def legacy_total(items):
+-    return sum(items)
+diff --git a/b.py b/b.py
+--- a/b.py
++++ b/b.py
+@@ -1 +1 @@
+-print(legacy_total([1, 2]))
++print(sum([1, 2]))
+`);
+    expect(findDependencies(removal.getAllHunks())).toEqual([
+      { from: 'b.py:0', to: 'a.py:0', reason: 'identifier', identifier: 'legacy_total' },
+    ]);
+  });
+
+  it('should tie together selections from the same hunk', () => {
+    const hunk = diff.getHunk('src/format.ts:0')!;
+    const first = selectHunksWithLines(diff, ['src/format.ts:0:0'])[0];
+    const second = selectHunksWithLines(diff, ['src/format.ts:0:3'])[0];
+    expect(findDependencies([first, second]).map(d => d.reason)).toEqual(['overlap', 'overlap']);
+    expect(findDependencies([hunk])).toEqual([]);
+  });
+});
+
+describe('orderGroups', () => {
+  it('should put each group after the ones it depends on, and keep the given order otherwise', () => {
+    const report = groupHunks(diff.getFileHunks('src/report.ts'), 'report');
+    const format = groupHunks(diff.getFileHunks('src/format.ts'), 'format');
+    const other = groupHunks([], 'other');
+
+    const result = orderGroups([other, report, format]);
+    expect(result.success).toBe(true);
+    expect(result.groups.map(g => g.label)).toEqual(['other', 'format', 'report']);
+  });
+
+  it('should order the pieces of a split hunk', () => {
+    const pieces = splitHunkAtIndices(diff.getHunk('src/format.ts:0')!, [1, 2, 3]);
+    const groups = pieces.map((piece, i) => groupHunks([piece], `piece ${i}`)).reverse();
+    expect(orderGroups(groups).groups.map(g => g.label)).toEqual(['piece 0', 'piece 1', 'piece 2', 'piece 3']);
+  });
+
+  it('should report groups that depend on each other', () => {
+    const first = groupHunks(selectHunksWithLines(diff, ['src/format.ts:0:0']), 'first');
+    const second = groupHunks(selectHunksWithLines(diff, ['src/format.ts:0:3']), 'second');
+    const report = groupHunks(diff.getFileHunks('src/report.ts'), 'report');
+
+    const result = orderGroups([report, second, first]);
+    expect(result.success).toBe(false);
+    expect(result.cycles).toHaveLength(1);
+    expect(result.cycles[0].groups).toEqual(['second', 'first']);
+    expect(result.cycles[0].dependencies.every(d => d.reason === 'overlap')).toBe(true);
+    expect(result.groups.map(g => g.label)).toEqual(['second', 'first', 'report']);
+  });
+});
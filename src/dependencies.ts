@@ -0,0 +1,383 @@
+/**
+ * Dependencies between hunks
+ *
+ * Hunks taken from one diff can usually be staged in any order, but not
+ * always: two selections from the same hunk both expect the lines the
+ * other changes, a hunk split with splitHunkAt expects the lines the
+ * pieces before it add, and a hunk that calls a new function needs the
+ * hunk that defines it. This finds such dependencies, and orders the
+ * groups of a commit series so that each comes after those it needs.
+ */
+
+import { Hunk, HunkGroup } from './types.js';
+
+/**
+ * Why one hunk depends on another
+ * - 'overlap': they change the same lines, or one was made to apply on top of the other
+ * - 'adjacent': one changes lines that the other shows as context, so staging it first breaks the other's patch
+ * - 'identifier': one uses a name that the other declares (or removes the last uses of a name the other removes)
+ */
+export type DependencyReason = 'overlap' | 'adjacent' | 'identifier';
+
+/**
+ * `to` must be staged in the same commit as `from`, or after it
+ */
+export interface HunkDependency {
+  from: string;
+  to: string;
+  reason: DependencyReason;
+  /** The identifier, for 'identifier' dependencies */
+  identifier?: string;
+}
+
+/**
+ * Groups that depend on each other, so that no order of them works
+ */
+export interface DependencyCycle {
+  /** Labels of the groups, in their given order */
+  groups: string[];
+  /** The dependencies between them */
+  dependencies: HunkDependency[];
+}
+
+/**
+ * Result of ordering groups by their dependencies
+ */
+export interface GroupOrder {
+  /** Whether every dependency can be met */
+  success: boolean;
+  /** The groups, each after the ones it depends on; groups in a cycle keep their given order */
+  groups: HunkGroup[];
+  cycles: DependencyCycle[];
+}
+
+/**
+ * A dependency between two hunks, by their position in a list
+ */
+interface IndexedDependency {
+  from: number;
+  to: number;
+  reason: DependencyReason;
+  identifier?: string;
+}
+
+/**
+ * Where a hunk sits in the old file, and what it does there
+ */
+interface Footprint {
+  /** Old lines the hunk covers, [start, end) */
+  start: number;
+  end: number;
+  /** Old line numbers of removed lines */
+  removed: Set<number>;
+  /** Old line numbers that additions go before */
+  inserted: Set<number>;
+  /** Old content by line number (context and removed lines) */
+  oldLines: Map<number, string>;
+  /** Content once the hunk is applied, by line number then (context and added lines) */
+  newLines: Map<number, string>;
+}
+
+/**
+ * Top-level declarations, whose names other code can depend on
+ * Indented ones are mostly locals, which would tie together every hunk using a common name.
+ */
+const DECLARATION_REGEX =
+  /^(?:export\s+(?:default\s+)?)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:pub\s+)?(?:function|class|interface|type|enum|const|let|var|def|fn|func|struct|trait|module|namespace)\s+\*?\s*([A-Za-z_$][\w$]*)/;
+
+const IDENTIFIER_REGEX = /[A-Za-z_$][\w$]*/g;
+
+/**
+ * Shorter names (i, x, id) are too common to mean anything
+ */
+const MIN_IDENTIFIER_LENGTH = 3;
+
+/**
+ * Find the dependencies between hunks
+ *
+ * The hunks should come from one diff, whole or as selections and
+ * pieces of its hunks (positions are compared in the diff's old file).
+ * Hunks of different files can only depend on each other by identifier.
+ */
+export function findDependencies(hunks: Hunk[]): HunkDependency[] {
+  return findIndexedDependencies(hunks).map(d => ({
+    from: hunks[d.from].id,
+    to: hunks[d.to].id,
+    reason: d.reason,
+    ...(d.identifier ? { identifier: d.identifier } : {}),
+  }));
+}
+
+/**
+ * Order groups so that each is staged after the groups it depends on
+ *
+ * Groups are kept in their given order where dependencies allow. Groups
+ * that depend on each other are reported as cycles: their hunks have to
+ * go into one commit, or be planned one after another with
+ * subtractSelections.
+ */
+export function orderGroups(groups: HunkGroup[]): GroupOrder {
+  const hunks = groups.flatMap(g => g.hunks);
+  const groupOf = groups.flatMap((g, i) => g.hunks.map(() => i));
+
+  const edges = findIndexedDependencies(hunks)
+    .map(d => ({ dependency: d, from: groupOf[d.from], to: groupOf[d.to] }))
+    .filter(e => e.from !== e.to);
+
+  const successors = groups.map(() => new Set<number>());
+  for (const edge of edges) successors[edge.from].add(edge.to);
+
+  const components = stronglyConnected(successors);
+  const componentOf = new Array<number>(groups.length);
+  components.forEach((component, c) => component.forEach(g => (componentOf[g] = c)));
+
+  const cycles: DependencyCycle[] = components
+    .filter(component => component.length > 1)
+    .map(component => ({
+      groups: component.map(g => groups[g].label),
+      dependencies: edges
+        .filter(e => component.includes(e.from) && component.includes(e.to))
+        .map(e => ({
+          from: hunks[e.dependency.from].id,
+          to: hunks[e.dependency.to].id,
+          reason: e.dependency.reason,
+          ...(e.dependency.identifier ? { identifier: e.dependency.identifier } : {}),
+        })),
+    }));
+
+  // Order the components, always taking the earliest given group that is ready
+  const waitingOn = components.map(() => new Set<number>());
+  for (const edge of edges) {
+    if (componentOf[edge.from] !== componentOf[edge.to]) waitingOn[componentOf[edge.to]].add(componentOf[edge.from]);
+  }
+  const done = new Set<number>();
+  const ordered: HunkGroup[] = [];
+  while (done.size < components.length) {
+    const next = components
+      .map((component, c) => ({ component, c }))
+      .filter(({ c }) => !done.has(c) && [...waitingOn[c]].every(w => done.has(w)))
+      .sort((a, b) => a.component[0] - b.component[0])[0];
+    done.add(next.c);
+    ordered.push(...next.component.map(g => groups[g]));
+  }
+
+  return { success: cycles.length === 0, groups: ordered, cycles };
+}
+
+/**
+ * Find the dependencies between hunks, by index
+ */
+function findIndexedDependencies(hunks: Hunk[]): IndexedDependency[] {
+  const dependencies: IndexedDependency[] = [];
+  const seen = new Set<string>();
+  const add = (dependency: IndexedDependency) => {
+    const key = `${dependency.from}>${dependency.to}>${dependency.reason}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    dependencies.push(dependency);
+  };
+
+  const footprints = hunks.map(h => (h.kind || h.parentRanges ? null : footprint(h)));
+
+  for (let a = 0; a < hunks.length; a++) {
+    for (let b = a + 1; b < hunks.length; b++) {
+      const [fa, fb] = [footprints[a], footprints[b]];
+      if (!fa || !fb || hunks[a].file !== hunks[b].file) continue;
+
+      // A hunk made to apply on top of another has to go after it
+      const bAfterA = appliesAfter(fa, fb);
+      const aAfterB = appliesAfter(fb, fa);
+      if (bAfterA || aAfterB) {
+        if (bAfterA) add({ from: a, to: b, reason: 'overlap' });
+        if (aAfterB) add({ from: b, to: a, reason: 'overlap' });
+        continue;
+      }
+
+      // Otherwise line numbers can only be compared between hunks of the same diff
+      if (!sameBase(fa, fb)) continue;
+
+      // Staging a hunk whose changes are inside another's lines breaks the other's patch
+      const aInB = changesInside(fa, fb);
+      const bInA = changesInside(fb, fa);
+      if (aInB) add({ from: b, to: a, reason: aInB });
+      if (bInA) add({ from: a, to: b, reason: bInA });
+    }
+  }
+
+  const declared = hunks.map(h => ({ added: declarations(h, 'add'), removed: declarations(h, 'remove') }));
+  const used = hunks.map(h => ({ added: identifiers(h, 'add'), removed: identifiers(h, 'remove') }));
+
+  for (let a = 0; a < hunks.length; a++) {
+    for (let b = 0; b < hunks.length; b++) {
+      if (a === b) continue;
+      for (const name of declared[a].added) {
+        // A new name is needed by the hunks that start using it
+        if (used[b].added.has(name) && !declared[b].added.has(name)) {
+          add({ from: a, to: b, reason: 'identifier', identifier: name });
+        }
+      }
+      for (const name of declared[a].removed) {
+        // A name can only go once the hunks that stop using it have
+        if (!declared[a].added.has(name) && used[b].removed.has(name) && !declared[b].removed.has(name)) {
+          add({ from: b, to: a, reason: 'identifier', identifier: name });
+        }
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Work out where a hunk sits in the old file
+ */
+function footprint(hunk: Hunk): Footprint {
+  const start = hunk.oldCount === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+  const result: Footprint = {
+    start,
+    end: start + hunk.oldCount,
+    removed: new Set(),
+    inserted: new Set(),
+    oldLines: new Map(),
+    newLines: new Map(),
+  };
+
+  let oldLine = start;
+  let newLine = start;
+  for (const line of hunk.lines) {
+    if (line.type !== 'remove') {
+      result.newLines.set(newLine++, line.content);
+    }
+    if (line.type === 'add') {
+      result.inserted.add(oldLine);
+      continue;
+    }
+    result.oldLines.set(oldLine, line.content);
+    if (line.type === 'remove') result.removed.add(oldLine);
+    oldLine++;
+  }
+  return result;
+}
+
+/**
+ * Whether `later` was made to apply on top of `earlier`, as the pieces of
+ * splitHunkAt are: its old lines match what `earlier` leaves, not what was there before
+ */
+function appliesAfter(earlier: Footprint, later: Footprint): boolean {
+  return agree(earlier.newLines, later.oldLines) && !agree(earlier.oldLines, later.oldLines);
+}
+
+/**
+ * Whether two hunks apply to the same version of the file, as far as their old lines show
+ */
+function sameBase(a: Footprint, b: Footprint): boolean {
+  return agree(a.oldLines, b.oldLines) || ![...a.oldLines.keys()].some(lineNumber => b.oldLines.has(lineNumber));
+}
+
+/**
+ * Whether two sets of numbered lines share a line number, and have the same content on every one they share
+ */
+function agree(a: Map<number, string>, b: Map<number, string>): boolean {
+  let shared = 0;
+  for (const [lineNumber, content] of a) {
+    if (!b.has(lineNumber)) continue;
+    if (b.get(lineNumber) !== content) return false;
+    shared++;
+  }
+  return shared > 0;
+}
+
+/**
+ * Whether `changer` changes lines inside `other`'s, and whether those are changed or context lines there
+ * Additions right before or after `other`'s lines leave its patch applicable.
+ */
+function changesInside(changer: Footprint, other: Footprint): DependencyReason | undefined {
+  let reason: DependencyReason | undefined;
+
+  for (const lineNumber of changer.removed) {
+    if (lineNumber < other.start || lineNumber >= other.end) continue;
+    if (other.removed.has(lineNumber)) return 'overlap';
+    reason = 'adjacent';
+  }
+  for (const lineNumber of changer.inserted) {
+    if (other.inserted.has(lineNumber) || other.removed.has(lineNumber) || other.removed.has(lineNumber - 1)) {
+      return 'overlap';
+    }
+    if (lineNumber > other.start && lineNumber < other.end) reason = 'adjacent';
+  }
+  return reason;
+}
+
+/**
+ * Names declared on a hunk's added or removed lines
+ */
+function declarations(hunk: Hunk, type: 'add' | 'remove'): Set<string> {
+  const names = new Set<string>();
+  if (hunk.kind) return names;
+
+  for (const line of hunk.lines) {
+    if (line.type !== type) continue;
+    const match = line.content.match(DECLARATION_REGEX);
+    if (match && match[1].length >= MIN_IDENTIFIER_LENGTH) names.add(match[1]);
+  }
+  return names;
+}
+
+/**
+ * Every name on a hunk's added or removed lines
+ */
+function identifiers(hunk: Hunk, type: 'add' | 'remove'): Set<string> {
+  const names = new Set<string>();
+  if (hunk.kind) return names;
+
+  for (const line of hunk.lines) {
+    if (line.type !== type) continue;
+    for (const match of line.content.matchAll(IDENTIFIER_REGEX)) {
+      if (match[0].length >= MIN_IDENTIFIER_LENGTH) names.add(match[0]);
+    }
+  }
+  return names;
+}
+
+/**
+ * Tarjan's strongly connected components, each sorted, in no particular order
+ */
+function stronglyConnected(successors: Set<number>[]): number[][] {
+  const index = new Array<number>(successors.length);
+  const lowLink = new Array<number>(successors.length);
+  const onStack = new Set<number>();
+  const stack: number[] = [];
+  const components: number[][] = [];
+  let counter = 0;
+
+  const visit = (node: number) => {
+    index[node] = lowLink[node] = counter++;
+    stack.push(node);
+    onStack.add(node);
+
+    for (const next of successors[node]) {
+      if (index[next] === undefined) {
+        visit(next);
+        lowLink[node] = Math.min(lowLink[node], lowLink[next]);
+      } else if (onStack.has(next)) {
+        lowLink[node] = Math.min(lowLink[node], index[next]);
+      }
+    }
+
+    if (lowLink[node] === index[node]) {
+      const component: number[] = [];
+      let member: number;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== node);
+      components.push(component.sort((a, b) => a - b));
+    }
+  };
+
+  for (let node = 0; node < successors.length; node++) {
+    if (index[node] === undefined) visit(node);
+  }
+  return components;
+}
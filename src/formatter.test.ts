@@ -1,5 +1,6 @@
-import { summarizeHunk, formatHunk, formatHunkList, formatDiffForLLM } from '../src/formatter';
+import { summarizeHunk, formatHunk, formatHunkList, formatDiffForLLM, describeSubmoduleChange } from '../src/formatter';
 import { FileDiff, Hunk, ParsedDiff } from '../src/types';
+import { parseDiff } from '../src/parser';
 
 function makeHunk(overrides: Partial<Hunk> & { lines: Hunk['lines'] }): Hunk {
   const { lines } = overrides;
@@ -42,6 +43,17 @@ describe('summarizeHunk', () => {
     const hunk = makeHunk({ lines: [{ type: 'context', content: 'unchanged' }] });
     expect(summarizeHunk(hunk)).toBe('changes code');
   });
+
+  it('tags hunks that only change whitespace', () => {
+    const hunk = makeHunk({
+      lines: [
+        { type: 'remove', content: 'if (ready) {' },
+        { type: 'add', content: '  if (ready) {' },
+        { type: 'add', content: '' },
+      ],
+    });
+    expect(summarizeHunk(hunk)).toBe('removes 1 line(s), adds 2 line(s) [whitespace only]');
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -206,3 +218,115 @@ Location: lines 1-0 (original)
     );
   });
 });
+
+describe('binary files', () => {
+  const binaryHunk = makeHunk({
+    id: 'logo.png:0',
+    file: 'logo.png',
+    oldStart: 0,
+    newStart: 0,
+    header: 'GIT binary patch',
+    kind: 'binary',
+    lines: [],
+  });
+
+  it('summarizes a binary unit', () => {
+    expect(summarizeHunk(binaryHunk)).toBe('binary file change');
+  });
+
+  it('lists binary files as whole-file units', () => {
+    const diff = makeParsedDiff([
+      {
+        oldPath: 'logo.png',
+        newPath: 'logo.png',
+        isNew: true,
+        isDeleted: false,
+        isRenamed: false,
+        isBinary: true,
+        hunks: [binaryHunk],
+      },
+    ]);
+
+    const output = formatDiffForLLM(diff);
+    expect(output).toContain('- logo.png (new, binary) - 1 hunk(s)');
+    expect(output).toContain(`## Hunk logo.png:0
+File: logo.png
+Binary file: whole-file change, cannot be split`);
+    expect(formatHunkList([binaryHunk])).toContain('| logo.png:0 | logo.png | binary | binary file change |');
+  });
+});
+
+describe('submodules', () => {
+  const diff = parseDiff(`diff --git a/lib b/lib
+index e96a4fe..a9132d2 160000
+--- a/lib
++++ b/lib
+@@ -1 +1 @@
+-Subproject commit e96a4fea5b4b5a03215d2c35b8d168e42b800a9d
++Subproject commit a9132d22e5e8d0a0bf5becf9b2d6c88717887e57
+`);
+
+  it('summarizes a pointer change by its commits', () => {
+    expect(summarizeHunk(diff.getHunk('lib:0')!)).toBe('submodule e96a4fe → a9132d2');
+  });
+
+  it('describes added, removed and dirty submodules', () => {
+    expect(describeSubmoduleChange({ newCommit: 'a9132d22e5e8' })).toBe('added at a9132d2');
+    expect(describeSubmoduleChange({ oldCommit: 'e96a4fea5b4b' })).toBe('removed (was e96a4fe)');
+    expect(describeSubmoduleChange({ oldCommit: 'e96a4fea5b4b', newCommit: 'e96a4fea5b4b', dirty: true }))
+      .toBe('unchanged at e96a4fe, checkout has uncommitted changes');
+  });
+
+  it('shows the submodule log when given a provider', () => {
+    const output = formatDiffForLLM(diff, {
+      submoduleLog: { getLog: () => ['> a9132d2 Fix parser', '> 5c0ffee Add tests'] },
+    });
+    expect(output).toContain('- lib (submodule) - 1 hunk(s)');
+    expect(output).toContain(`## Hunk lib:0
+File: lib
+Submodule: e96a4fe → a9132d2 (pointer change, staged as a whole)
+
+  > a9132d2 Fix parser
+  > 5c0ffee Add tests`);
+  });
+});
+
+describe('combined diffs', () => {
+  const diff = parseDiff(`diff --cc f.txt
+index f00c965,e0b0065..0000000
+--- a/f.txt
++++ b/f.txt
+@@@ -8,3 -8,2 +8,7 @@@
+  8
+++<<<<<<< HEAD
+ +9
+ +10
+++=======
++ NINE
+++>>>>>>> side
+`);
+  const hunk = diff.getAllHunks()[0];
+
+  it('tags unresolved conflict markers', () => {
+    expect(summarizeHunk(hunk)).toContain('conflict markers');
+  });
+
+  it('shows a location per parent and for the merge result', () => {
+    expect(formatHunk(hunk)).toContain('Location: lines 8-10 (parent 1), 8-9 (parent 2) → 8-14 (merge result)');
+  });
+
+  it('numbers lines per parent and keeps one prefix column per parent', () => {
+    const output = formatHunk(hunk);
+    expect(output).toContain('  8   8   8   8');
+    expect(output).toContain('          9 ++<<<<<<< HEAD');
+    expect(output).toContain('  9      10  +9');
+    expect(output).toContain('      9  13 + NINE');
+  });
+
+  it('marks merge files and explains the columns', () => {
+    const output = formatDiffForLLM(diff);
+    expect(output).toContain('- f.txt (merge of 2 parents) - 1 hunk(s)');
+    expect(output).toContain('Merge hunks compare the merge result with each parent');
+  });
+});
+
@@ -1,4 +1,6 @@
-import { Hunk, ParsedDiff } from './types.js';
+import { Hunk, LineRange, ParsedDiff, SubmoduleChange, SubmoduleLogProvider } from './types.js';
+import { NO_NEWLINE_MARKER } from './parser.js';
+import { isWhitespaceOnly } from './manipulator.js';
 
 /**
  * Format options for LLM output
@@ -12,12 +14,43 @@ export interface FormatOptions {
   includeSummary?: boolean;
   /** Maximum lines to show per hunk before truncating (default: unlimited) */
   maxLinesPerHunk?: number;
+  /** List the commits behind submodule pointer changes (default: not listed) */
+  submoduleLog?: SubmoduleLogProvider;
+}
+
+/**
+ * Describe the commits a submodule moved between, with abbreviated hashes
+ * e.g. "e96a4fe → a9132d2" or "added at a9132d2"
+ */
+export function describeSubmoduleChange(change: SubmoduleChange): string {
+  const short = (commit: string) => commit.slice(0, 7);
+  const move = change.oldCommit && change.newCommit
+    ? change.oldCommit === change.newCommit
+      ? `unchanged at ${short(change.newCommit)}`
+      : `${short(change.oldCommit)} → ${short(change.newCommit)}`
+    : change.newCommit
+      ? `added at ${short(change.newCommit)}`
+      : `removed (was ${short(change.oldCommit ?? '')})`;
+  return change.dirty ? `${move}, checkout has uncommitted changes` : move;
 }
 
 /**
  * Generate a summary of what a hunk does
  */
 export function summarizeHunk(hunk: Hunk): string {
+  if (hunk.kind === 'binary') {
+    return 'binary file change';
+  }
+  if (hunk.kind === 'mode') {
+    return `mode change ${hunk.fileHeader?.oldMode} → ${hunk.fileHeader?.newMode}`;
+  }
+  if (hunk.kind === 'rename' || hunk.kind === 'copy') {
+    return `${hunk.kind} from ${hunk.oldFile}`;
+  }
+  if (hunk.kind === 'submodule' && hunk.fileHeader?.submodule) {
+    return `submodule ${describeSubmoduleChange(hunk.fileHeader.submodule)}`;
+  }
+
   const adds = hunk.lines.filter(l => l.type === 'add');
   const removes = hunk.lines.filter(l => l.type === 'remove');
 
@@ -30,6 +63,11 @@ export function summarizeHunk(hunk: Hunk): string {
     description = `removes ${removes.length} line(s)`;
   }
 
+  // The content of a reformat says nothing about what it is for
+  if (isWhitespaceOnly(hunk)) {
+    return `${description} [whitespace only]`;
+  }
+
   const allContent = [...adds, ...removes].map(l => l.content).join('\n');
   const tags: string[] = [];
   if (/console\.log|logger\.|log\(/.test(allContent))          tags.push('logging');
@@ -38,6 +76,7 @@ export function summarizeHunk(hunk: Hunk): string {
   if (/try\s*\{|catch\s*\(|throw |\.catch\(/.test(allContent)) tags.push('error handling');
   if (/async |await |Promise|\.then\(/.test(allContent))        tags.push('async');
   if (/if\s*\(|else\s*\{|switch\s*\(|case /.test(allContent))  tags.push('conditional');
+  if (/^(<{7}|={7}|>{7})( |$)/m.test(allContent))               tags.push('conflict markers');
 
   const tagStr = tags.length > 0 ? ` [${tags.join(', ')}]` : '';
   return (description + tagStr) || 'changes code';
@@ -52,13 +91,46 @@ export function formatHunk(hunk: Hunk, options: FormatOptions = {}): string {
     includeLineNumbers = true,
     includeSummary = true,
     maxLinesPerHunk,
+    submoduleLog,
   } = options;
 
   const lines: string[] = [];
 
   lines.push(`## Hunk ${hunk.id}`);
   lines.push(`File: ${hunk.file}`);
-  lines.push(`Location: lines ${hunk.oldStart}-${hunk.oldStart + hunk.oldCount - 1} (original)`);
+
+  if (hunk.kind === 'binary') {
+    lines.push('Binary file: whole-file change, cannot be split');
+    return lines.join('\n');
+  }
+  if (hunk.kind === 'mode') {
+    lines.push(`Mode change: ${hunk.fileHeader?.oldMode} → ${hunk.fileHeader?.newMode} (independent of content hunks)`);
+    return lines.join('\n');
+  }
+  if (hunk.kind === 'rename' || hunk.kind === 'copy') {
+    const similarity = hunk.fileHeader?.similarity !== undefined ? `, ${hunk.fileHeader.similarity}% similar` : '';
+    const label = hunk.kind === 'rename' ? 'Rename' : 'Copy';
+    lines.push(`${label}: ${hunk.oldFile} → ${hunk.file}${similarity} (without the content hunks)`);
+    return lines.join('\n');
+  }
+  const submodule = hunk.kind === 'submodule' ? hunk.fileHeader?.submodule : undefined;
+  if (submodule) {
+    lines.push(`Submodule: ${describeSubmoduleChange(submodule)} (pointer change, staged as a whole)`);
+    const log = submoduleLog?.getLog(hunk.file, submodule);
+    if (includeContent && log && log.length > 0) {
+      lines.push('', ...log.map(entry => `  ${entry}`));
+    }
+    return lines.join('\n');
+  }
+
+  if (hunk.parentRanges) {
+    const parents = hunk.parentRanges
+      .map((range, i) => `${range.start}-${range.start + range.count - 1} (parent ${i + 1})`)
+      .join(', ');
+    lines.push(`Location: lines ${parents} → ${hunk.newStart}-${hunk.newStart + hunk.newCount - 1} (merge result)`);
+  } else {
+    lines.push(`Location: lines ${hunk.oldStart}-${hunk.oldStart + hunk.oldCount - 1} (original)`);
+  }
 
   if (hunk.context) {
     lines.push(`Context: ${hunk.context}`);
@@ -68,7 +140,10 @@ export function formatHunk(hunk: Hunk, options: FormatOptions = {}): string {
     lines.push(`Summary: ${summarizeHunk(hunk)}`);
   }
 
-  if (includeContent) {
+  if (includeContent && hunk.parentRanges) {
+    lines.push('');
+    lines.push(...formatCombinedLines(hunk, hunk.parentRanges, includeLineNumbers, maxLinesPerHunk));
+  } else if (includeContent) {
     lines.push('');
     lines.push('```diff');
 
@@ -86,8 +161,10 @@ export function formatHunk(hunk: Hunk, options: FormatOptions = {}): string {
         const oldNum = line.type === 'add' ? ' '.repeat(padWidth) : String(oldLine).padStart(padWidth);
         const newNum = line.type === 'remove' ? ' '.repeat(padWidth) : String(newLine).padStart(padWidth);
         lines.push(`${oldNum} ${newNum} ${prefix}${line.content}`);
+        if (line.noNewlineAtEof) lines.push(`${' '.repeat(padWidth * 2 + 2)}${NO_NEWLINE_MARKER}`);
       } else {
         lines.push(`${prefix}${line.content}`);
+        if (line.noNewlineAtEof) lines.push(NO_NEWLINE_MARKER);
       }
       if (line.type !== 'add') oldLine++;
       if (line.type !== 'remove') newLine++;
@@ -103,6 +180,56 @@ export function formatHunk(hunk: Hunk, options: FormatOptions = {}): string {
   return lines.join('\n');
 }
 
+/**
+ * Format the lines of a combined diff hunk, with one prefix column and
+ * (optionally) one line number column per parent, then the merge result's
+ */
+function formatCombinedLines(
+  hunk: Hunk,
+  parentRanges: LineRange[],
+  includeLineNumbers: boolean,
+  maxLinesPerHunk?: number,
+): string[] {
+  const lines = ['```diff'];
+
+  const displayLines = maxLinesPerHunk && hunk.lines.length > maxLinesPerHunk
+    ? hunk.lines.slice(0, maxLinesPerHunk)
+    : hunk.lines;
+
+  const padWidth = Math.max(3, ...parentRanges.map(r => String(r.start + r.count).length));
+  const parentLines = parentRanges.map(r => r.start);
+  let newLine = hunk.newStart;
+
+  for (const line of displayLines) {
+    const inParents = line.inParents ?? [];
+    const prefix = parentRanges
+      .map((_, i) => line.type === 'remove' ? (inParents[i] ? '-' : ' ') : (inParents[i] ? ' ' : '+'))
+      .join('');
+
+    if (includeLineNumbers) {
+      const numbers = parentRanges.map((_, i) => inParents[i] ? String(parentLines[i]).padStart(padWidth) : ' '.repeat(padWidth));
+      numbers.push(line.type === 'remove' ? ' '.repeat(padWidth) : String(newLine).padStart(padWidth));
+      lines.push(`${numbers.join(' ')} ${prefix}${line.content}`);
+      if (line.noNewlineAtEof) lines.push(`${' '.repeat((padWidth + 1) * numbers.length)}${NO_NEWLINE_MARKER}`);
+    } else {
+      lines.push(`${prefix}${line.content}`);
+      if (line.noNewlineAtEof) lines.push(NO_NEWLINE_MARKER);
+    }
+
+    inParents.forEach((inParent, i) => {
+      if (inParent) parentLines[i]++;
+    });
+    if (line.type !== 'remove') newLine++;
+  }
+
+  if (maxLinesPerHunk && hunk.lines.length > maxLinesPerHunk) {
+    lines.push(`... (${hunk.lines.length - maxLinesPerHunk} more lines)`);
+  }
+
+  lines.push('```');
+  return lines;
+}
+
 /**
  * Format an entire diff for LLM consumption
  */
@@ -111,13 +238,28 @@ export function formatDiffForLLM(diff: ParsedDiff, options: FormatOptions = {}):
 
   const fileList = diff.files
     .map(file => {
-      const status = file.isNew ? '(new)' : file.isDeleted ? '(deleted)' : file.isRenamed ? '(renamed)' : '';
+      const change = file.isNew ? 'new'
+        : file.isDeleted ? 'deleted'
+        : file.isCopied ? `copied from ${file.oldPath}`
+        : file.isRenamed ? `renamed from ${file.oldPath}`
+        : '';
+      const modeChange = file.oldMode && file.newMode && file.oldMode !== file.newMode ? 'mode change' : '';
+      const merge = file.isCombined ? `merge of ${file.parentHashes?.length ?? 2} parents` : '';
+      const tags = [change, file.isBinary ? 'binary' : '', file.submodule ? 'submodule' : '', modeChange, merge].filter(Boolean);
+      const status = tags.length > 0 ? `(${tags.join(', ')})` : '';
       return `- ${file.newPath} ${status} - ${file.hunks.length} hunk(s)`;
     })
     .join('\n');
 
   const hunkList = allHunks.map(hunk => formatHunk(hunk, options)).join('\n\n');
 
+  // Combined diffs read differently enough to need a key
+  const combinedNote = diff.files.some(f => f.isCombined)
+    ? `
+
+Merge hunks compare the merge result with each parent: the prefix has one column per parent, "+" where the result has a line that parent lacks, "-" where that parent has a line the result drops. Line numbers are given per parent, then for the result.`
+    : '';
+
   return `# Git Diff Analysis
 
 Total files changed: ${diff.files.length}
@@ -128,7 +270,7 @@ ${fileList}
 
 ## Hunks
 
-Each hunk represents a contiguous block of changes. Use the hunk IDs to select which changes belong together.
+Each hunk represents a contiguous block of changes. Use the hunk IDs to select which changes belong together.${combinedNote}
 
 ${hunkList}
 `;
@@ -142,7 +284,7 @@ export function formatHunkList(hunks: Hunk[]): string {
   const separator = '|' + header.split('|').filter(Boolean).map(col => '-'.repeat(col.length)).join('|') + '|';
 
   const rows = hunks.map(hunk => {
-    const lineRange = `${hunk.oldStart}-${hunk.oldStart + hunk.oldCount - 1}`;
+    const lineRange = hunk.kind ?? `${hunk.oldStart}-${hunk.oldStart + hunk.oldCount - 1}`;
     return `| ${hunk.id} | ${hunk.file} | ${lineRange} | ${summarizeHunk(hunk)} |`;
   });
 
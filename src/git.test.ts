@@ -0,0 +1,37 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getStagedDiff, getUnstagedDiff } from '../src/git';
+import { parseDiff } from '../src/parser';
+
+describe('binary diffs', () => {
+  let cwd: string;
+  const run = (...args: string[]) => execFileSync('git', args, { cwd, stdio: 'pipe' });
+
+  beforeEach(() => {
+    cwd = mkdtempSync(join(tmpdir(), 'gorgeous-hunks-'));
+    run('init', '-q');
+    run('config', 'user.email', 'sam@example.com');
+    run('config', 'user.name', 'Sam Doe');
+    writeFileSync(join(cwd, 'img.bin'), Buffer.from([0, 1, 2, 3]));
+    run('add', '.');
+    run('commit', '-qm', 'base');
+    writeFileSync(join(cwd, 'img.bin'), Buffer.from([0, 1, 2, 3, 4, 5]));
+  });
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true });
+  });
+
+  it('should carry the payload of unstaged binary changes', () => {
+    const file = parseDiff(getUnstagedDiff({ cwd })).files[0];
+    expect(file.binary?.forward).toBeDefined();
+  });
+
+  it('should carry the payload of staged binary changes', () => {
+    run('add', 'img.bin');
+    const file = parseDiff(getStagedDiff({ cwd })).files[0];
+    expect(file.binary?.forward).toBeDefined();
+  });
+});
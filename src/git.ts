@@ -1,5 +1,8 @@
-import { execSync, spawn } from 'child_process';
-import { ApplyResult, Hunk } from './types.js';
+import { execFileSync, execSync, spawn } from 'child_process';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { ApplyResult, ContentProvider, Hunk, SubmoduleLogProvider } from './types.js';
 import { generatePatch } from './manipulator.js';
 
 export interface GitOptions {
@@ -35,25 +38,69 @@ export function git(args: string[], options: GitOptions = {}): string {
   }
 }
 
+/**
+ * Run a git command and yield its output line by line as it is produced
+ *
+ * Unlike git(), the output is never buffered in full, so there is no size
+ * limit. Throws once the output is exhausted if git exits unsuccessfully.
+ * Stopping iteration early kills the git process.
+ */
+export async function* streamGit(args: string[], options: GitOptions = {}): AsyncGenerator<string> {
+  const { cwd = process.cwd(), gitPath = 'git' } = options;
+
+  const child = spawn(gitPath, args, { cwd, stdio: ['ignore', 'pipe', 'pipe'] });
+  let stderr = '';
+  let spawnError: Error | undefined;
+  child.stderr.setEncoding('utf-8');
+  child.stderr.on('data', (chunk: string) => { stderr += chunk; });
+  child.on('error', (error) => { spawnError = error; });
+  const closed = new Promise<number | null>(resolve => child.on('close', resolve));
+
+  try {
+    yield* createInterface({ input: child.stdout, crlfDelay: Infinity });
+
+    const code = await closed;
+    if (spawnError) {
+      throw spawnError;
+    }
+    if (code !== 0) {
+      throw new Error(stderr.trim() || `${gitPath} ${args.join(' ')} exited with code ${code}`);
+    }
+  } finally {
+    if (child.exitCode === null && child.signalCode === null) {
+      child.kill();
+    }
+  }
+}
+
 /**
  * Get the unstaged diff from the working directory
+ * Uses --binary so binary files carry a payload that can be staged
  */
 export function getUnstagedDiff(options: GitOptions = {}): string {
-  return git(['diff'], options);
+  return git(['diff', '--binary'], options);
+}
+
+/**
+ * Stream the unstaged diff line by line, for use with parseDiffStream()
+ */
+export function streamUnstagedDiff(options: GitOptions = {}): AsyncGenerator<string> {
+  return streamGit(['diff', '--binary'], options);
 }
 
 /**
  * Get the staged diff
+ * Uses --binary, like getUnstagedDiff, so staged binary files can be re-applied
  */
 export function getStagedDiff(options: GitOptions = {}): string {
-  return git(['diff', '--cached'], options);
+  return git(['diff', '--cached', '--binary'], options);
 }
 
 /**
  * Get diff with custom context lines
  */
 export function getDiffWithContext(contextLines: number, options: GitOptions = {}): string {
-  return git(['diff', `-U${contextLines}`], options);
+  return git(['diff', '--binary', `-U${contextLines}`], options);
 }
 
 /**
@@ -195,3 +242,79 @@ export function reversePatch(patch: string, options: GitOptions = {}): ApplyResu
     };
   }
 }
+
+/**
+ * Options for createGitContentProvider
+ */
+export interface GitContentOptions extends GitOptions {
+  /** Revision the old content comes from (defaults to the index) */
+  oldRevision?: string;
+  /** Revision the new content comes from (defaults to the working tree) */
+  newRevision?: string;
+}
+
+/**
+ * Create a content provider reading files from a repository
+ *
+ * The defaults suit the unstaged diff: old content from the index, new
+ * content from the working tree. Unreadable files give null.
+ */
+export function createGitContentProvider(options: GitContentOptions = {}): ContentProvider {
+  const { cwd = process.cwd(), gitPath = 'git', oldRevision, newRevision } = options;
+
+  const show = (spec: string): string | null => {
+    try {
+      return execFileSync(gitPath, ['show', spec], {
+        cwd,
+        encoding: 'utf-8',
+        maxBuffer: 50 * 1024 * 1024,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+    } catch {
+      return null;
+    }
+  };
+
+  return {
+    readFile(path, version) {
+      if (version === 'old') {
+        return show(oldRevision === undefined ? `:${path}` : `${oldRevision}:${path}`);
+      }
+      if (newRevision !== undefined) {
+        return show(`${newRevision}:${path}`);
+      }
+      try {
+        return readFileSync(join(cwd, path), 'utf-8');
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Create a submodule log provider reading each submodule's checkout
+ *
+ * Lists commits the way `git diff --submodule=log` does: "> hash subject"
+ * for commits gained, "< hash subject" for commits left behind. Gives null
+ * for added or removed submodules and ones that aren't checked out.
+ */
+export function createSubmoduleLogProvider(options: GitOptions = {}): SubmoduleLogProvider {
+  const { cwd = process.cwd(), gitPath = 'git' } = options;
+
+  return {
+    getLog(path, change) {
+      if (!change.oldCommit || !change.newCommit) return null;
+      try {
+        const output = execFileSync(
+          gitPath,
+          ['log', '--left-right', '--format=%m %h %s', `${change.oldCommit}...${change.newCommit}`],
+          { cwd: join(cwd, path), encoding: 'utf-8', stdio: ['pipe', 'pipe', 'pipe'] },
+        );
+        return output.split('\n').filter(Boolean);
+      } catch {
+        return null;
+      }
+    },
+  };
+}
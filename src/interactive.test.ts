@@ -3,8 +3,25 @@ import {
   generateStagingPlanDocument,
   parseStagingPlanDocument,
   generateWorksheet,
+  executeStagingPlan,
 } from '../src/interactive';
 
+const movedDiff = `diff --git a/a.js b/a.js
+--- a/a.js
++++ b/a.js
+@@ -1,3 +1,1 @@
+-const retries = settings.get('network.retries');
+-const timeout = settings.get('network.timeout');
+ start();
+diff --git a/b.js b/b.js
+--- a/b.js
++++ b/b.js
+@@ -1,1 +1,3 @@
+ stop();
++const retries = settings.get('network.retries');
++const timeout = settings.get('network.timeout');
+`;
+
 describe('generateStagingPlanDocument', () => {
   const simpleDiff = `diff --git a/file.txt b/file.txt
 --- a/file.txt
@@ -33,6 +50,41 @@ describe('generateStagingPlanDocument', () => {
     expect(doc).toContain('### file.txt:0');
   });
 
+  it('should offer binary files as whole units only', () => {
+    const diff = parseDiff(`diff --git a/logo.png b/logo.png
+index 0000000..41e3e49 100644
+Binary files a/logo.png and b/logo.png differ
+`);
+    const doc = generateStagingPlanDocument(diff);
+
+    expect(doc).toContain('### logo.png:0\n\n[x] Include entire hunk (binary file)\n');
+    expect(doc).not.toContain('Or select specific lines');
+    expect(parseStagingPlanDocument(doc).selections).toEqual([{ hunkId: 'logo.png:0', mode: 'all' }]);
+  });
+
+  it('should offer mode changes as their own unit', () => {
+    const diff = parseDiff(`diff --git a/s.sh b/s.sh
+old mode 100644
+new mode 100755
+`);
+    const doc = generateStagingPlanDocument(diff);
+
+    expect(doc).toContain('### s.sh:mode\n\n[x] Include entire hunk (mode change 100644 → 100755)\n');
+    expect(parseStagingPlanDocument(doc).selections).toEqual([{ hunkId: 's.sh:mode', mode: 'all' }]);
+  });
+
+  it('should offer renames as their own unit', () => {
+    const diff = parseDiff(`diff --git a/a.txt b/b.txt
+similarity index 100%
+rename from a.txt
+rename to b.txt
+`);
+    const doc = generateStagingPlanDocument(diff);
+
+    expect(doc).toContain('### b.txt:rename\n\n[x] Include entire hunk (rename from a.txt)\n');
+    expect(parseStagingPlanDocument(doc).selections).toEqual([{ hunkId: 'b.txt:rename', mode: 'all' }]);
+  });
+
   it('should include line indices', () => {
     const diff = parseDiff(simpleDiff);
     const doc = generateStagingPlanDocument(diff);
@@ -40,6 +92,33 @@ describe('generateStagingPlanDocument', () => {
     // Lines should be indexed
     expect(doc).toMatch(/\[\s*\d+\]/);
   });
+
+  it('should point out moved code on both halves when asked to', () => {
+    const diff = parseDiff(movedDiff);
+    expect(generateStagingPlanDocument(diff)).not.toContain('moved to');
+
+    const doc = generateStagingPlanDocument(diff, 'Describe this commit', { detectMoves: true });
+
+    expect(doc).toContain('### a.js:0\n\nLines [0-1] moved to b.js:0 as [1-2] (100% similar): keep both in the same commit\n\n[x] Include entire hunk\n');
+    expect(doc).toContain('### b.js:0\n\nLines [1-2] moved from a.js:0 as [0-1] (100% similar): keep both in the same commit\n\n[x] Include entire hunk\n');
+    expect(parseStagingPlanDocument(doc).selections.map(s => s.hunkId)).toEqual(['a.js:0', 'b.js:0']);
+  });
+});
+
+describe('executeStagingPlan', () => {
+  it('should refuse to stage half of a move when asked to keep moves together', () => {
+    const diff = parseDiff(movedDiff);
+    const result = executeStagingPlan(diff, {
+      commitMessage: 'drop settings',
+      selections: [{ hunkId: 'a.js:0', mode: 'all' }],
+    }, { keepMovesTogether: true });
+
+    expect(result).toEqual({
+      success: false,
+      error: 'Code moved from a.js:0 to b.js:0 must be staged whole: the plan stages a.js:0 but not b.js:0',
+      stagedHunks: [],
+    });
+  });
 });
 
 describe('parseStagingPlanDocument', () => {
@@ -81,6 +160,21 @@ Commit message: test
     expect(result.selections[0].mode).toBe('all');
   });
 
+  it('should round-trip hunk IDs of paths with spaces', () => {
+    const diff = parseDiff(`diff --git a/my file.txt b/my file.txt
+--- a/my file.txt
++++ b/my file.txt
+@@ -1,2 +1,3 @@
+ line 1
++added line
+ line 2
+`);
+
+    const doc = generateStagingPlanDocument(diff);
+    expect(doc).toContain('### my file.txt:0');
+    expect(parseStagingPlanDocument(doc).selections).toEqual([{ hunkId: 'my file.txt:0', mode: 'all' }]);
+  });
+
   it('should parse partial line selections', () => {
     const doc = `# Staging Plan
 
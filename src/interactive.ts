@@ -17,11 +17,13 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { DiffLine, Hunk, ParsedDiff } from './types.js';
-import { hunkToLLMHunk, LLMHunk } from './llm-interface.js';
-import { isSplittable, splitHunk, editHunk, generatePatch } from './manipulator.js';
+import { DiffLine, Hunk, ParsedDiff, SubmoduleLogProvider } from './types.js';
+import { describeMove, hunkToLLMHunk, LLMHunk } from './llm-interface.js';
+import { isSplittable, splitHunk, editHunk, generatePatch, withRenameApplied } from './manipulator.js';
 import { getStagedDiff, applyPatchToIndex, checkPatch, reversePatch, git } from './git.js';
-import { parseDiff } from './parser.js';
+import { parseDiff, NO_NEWLINE_MARKER } from './parser.js';
+import { describeSubmoduleChange } from './formatter.js';
+import { findMoves } from './moves.js';
 
 /**
  * A staging plan that can be edited by an LLM
@@ -87,6 +89,22 @@ export interface Compensation {
   removedBy?: string;
 }
 
+/**
+ * Options for executing a staging plan
+ */
+export interface StagingPlanOptions {
+  /** Refuse plans that stage one half of a move (findMoves) without the other (default: not checked) */
+  keepMovesTogether?: boolean;
+}
+
+/**
+ * Options for generating a staging plan document
+ */
+export interface StagingPlanDocumentOptions {
+  /** Note code moved between hunks (findMoves) on both halves (default: off, as it is slow on large diffs) */
+  detectMoves?: boolean;
+}
+
 /**
  * Options for file-level summary generation
  */
@@ -95,6 +113,8 @@ export interface FileLevelSummaryOptions {
   inlineThreshold?: number;
   /** Include commit message field (default: true) */
   includeCommitMessage?: boolean;
+  /** List the commits behind submodule pointer changes (default: not listed) */
+  submoduleLog?: SubmoduleLogProvider;
 }
 
 /**
@@ -108,7 +128,7 @@ export function generateFileLevelSummary(
   diff: ParsedDiff,
   options: FileLevelSummaryOptions = {}
 ): string {
-  const { inlineThreshold = 3, includeCommitMessage = true } = options;
+  const { inlineThreshold = 3, includeCommitMessage = true, submoduleLog } = options;
   const lines: string[] = [];
 
   lines.push('# File-Level Staging Plan');
@@ -131,7 +151,11 @@ export function generateFileLevelSummary(
   for (const file of diff.files) {
     const isNew = file.isNew;
     const isDeleted = file.isDeleted;
-    const hunkCount = file.hunks.length;
+    const contentHunks = file.hunks.filter(h => !h.kind);
+    const hunkCount = contentHunks.length;
+    const modeChange = file.hunks.some(h => h.kind === 'mode') ? `mode ${file.oldMode} → ${file.newMode}` : '';
+    const renameNote = file.isCopied ? `copied from ${file.oldPath}` : file.isRenamed ? `renamed from ${file.oldPath}` : '';
+    const notes = [renameNote, modeChange].filter(Boolean).join(', ');
 
     // Calculate total line changes
     let totalAdded = 0;
@@ -144,24 +168,38 @@ export function generateFileLevelSummary(
     // Build file summary line
     let summary = `[ ] ${file.newPath}`;
 
-    if (isNew) {
+    if (file.isBinary) {
+      const change = isNew ? 'new' : isDeleted ? 'deleted' : 'modified';
+      summary += ` (binary, ${change}, whole file only)`;
+    } else if (file.submodule) {
+      summary += ` (submodule ${describeSubmoduleChange(file.submodule)})`;
+    } else if (isNew) {
       summary += ` (new file, ${totalAdded} lines)`;
     } else if (isDeleted) {
       summary += ` (deleted file, ${totalRemoved} lines)`;
+    } else if (hunkCount === 0 && notes) {
+      summary += ` (${notes})`;
     } else {
       const hunkText = hunkCount === 1 ? '1 hunk' : `${hunkCount} hunks`;
-      summary += ` (modified, ${hunkText}, +${totalAdded}/-${totalRemoved})`;
+      summary += ` (modified, ${hunkText}, +${totalAdded}/-${totalRemoved}${notes ? `, ${notes}` : ''})`;
     }
 
     lines.push(summary);
 
+    // A submodule's own history says more than its "Subproject commit" lines
+    const log = file.submodule ? submoduleLog?.getLog(file.newPath, file.submodule) : null;
+    if (log && log.length > 0) {
+      lines.push(...log.map(entry => `    ${entry}`));
+    }
+
     // Show inline changes for small hunks
-    if (hunkCount === 1 && totalAdded + totalRemoved <= inlineThreshold) {
-      const hunk = file.hunks[0];
+    if (!file.isBinary && hunkCount === 1 && totalAdded + totalRemoved <= inlineThreshold) {
+      const hunk = contentHunks[0];
       lines.push('```diff');
       for (const line of hunk.lines) {
         const prefix = line.type === 'context' ? ' ' : line.type === 'add' ? '+' : '-';
         lines.push(`${prefix} ${line.content}`);
+        if (line.noNewlineAtEof) lines.push(NO_NEWLINE_MARKER);
       }
       lines.push('```');
     }
@@ -190,20 +228,36 @@ export function generateFileLevelSummary(
  * each hunk is pre-selected via "[x] Include entire hunk", with individual
  * line checkboxes available for granular control.
  */
-export function generateStagingPlanDocument(diff: ParsedDiff, commitMessage = 'Describe this commit'): string {
+export function generateStagingPlanDocument(
+  diff: ParsedDiff,
+  commitMessage = 'Describe this commit',
+  options: StagingPlanDocumentOptions = {}
+): string {
+  const moves = options.detectMoves ? findMoves(diff.getAllHunks()) : [];
   const hunkSections = diff.files.flatMap(file =>
     file.hunks.map(hunk => {
-      const llmHunk = hunkToLLMHunk(hunk);
+      if (hunk.kind) {
+        return `### ${hunk.id}
+
+[x] Include entire hunk (${describeWholeFileUnit(hunk)})
+`;
+      }
+
+      const llmHunk = hunkToLLMHunk(hunk, moves);
+      const moveNotes = (llmHunk.moves ?? [])
+        .map(move => `${describeMove(move)}: keep both in the same commit\n\n`)
+        .join('');
       const lineRows = llmHunk.lines.map(line => {
         const prefix = line.type === 'context' ? ' ' : line.type === 'add' ? '+' : '-';
         const checkbox = line.type === 'context' ? '   ' : '[ ]';
         const indexStr = `[${String(line.index).padStart(2)}]`;
-        return `${checkbox} ${indexStr} ${prefix} ${line.content}`;
+        const row = `${checkbox} ${indexStr} ${prefix} ${line.content}`;
+        return line.noNewlineAtEof ? `${row}\n${' '.repeat(10)}${NO_NEWLINE_MARKER}` : row;
       }).join('\n');
 
       return `### ${hunk.id}
 
-[x] Include entire hunk
+${moveNotes}[x] Include entire hunk
 
 Or select specific lines:
 \`\`\`
@@ -222,6 +276,22 @@ Commit message: ${commitMessage}
 ${hunkSections}`;
 }
 
+/**
+ * Describe a whole-file unit (binary file, mode change, rename, submodule) for its checkbox line
+ */
+function describeWholeFileUnit(hunk: Hunk): string {
+  if (hunk.kind === 'submodule' && hunk.fileHeader?.submodule) {
+    return `submodule ${describeSubmoduleChange(hunk.fileHeader.submodule)}`;
+  }
+  if (hunk.kind === 'mode') {
+    return `mode change ${hunk.fileHeader?.oldMode} → ${hunk.fileHeader?.newMode}`;
+  }
+  if (hunk.kind === 'rename' || hunk.kind === 'copy') {
+    return `${hunk.kind} from ${hunk.oldFile}`;
+  }
+  return 'binary file';
+}
+
 export function generateDetailedDiffForFiles(
   diff: ParsedDiff,
   filePatterns: string[]
@@ -257,6 +327,13 @@ export function generateDetailedDiffForFiles(
       const llmHunk = hunkToLLMHunk(hunk);
       lines.push(`### ${hunk.id}`);
 
+      if (hunk.kind) {
+        lines.push('');
+        lines.push(`[ ] Include entire hunk (${describeWholeFileUnit(hunk)})`);
+        lines.push('');
+        continue;
+      }
+
       if (llmHunk.splittable) {
         lines.push(`(splittable into ${llmHunk.splitCount} sub-hunks)`);
       }
@@ -275,6 +352,7 @@ export function generateDetailedDiffForFiles(
         const checkbox = line.type === 'context' ? '   ' : '[ ]';
         const indexStr = `[${String(line.index).padStart(2)}]`;
         lines.push(`${checkbox} ${indexStr} ${prefix} ${line.content}`);
+        if (line.noNewlineAtEof) lines.push(`${' '.repeat(10)}${NO_NEWLINE_MARKER}`);
       }
 
       lines.push('```');
@@ -348,7 +426,8 @@ export function parseStagingPlanDocument(document: string, diff?: ParsedDiff): S
 
   for (const line of lines) {
     // Detect hunk headers
-    const hunkMatch = line.match(/^###\s+(\S+:\d+)/);
+    // Paths may have spaces, so the ID runs to the suffix at the end of the line
+    const hunkMatch = line.match(/^###\s+(.+:(?:\d+|mode|rename|copy))\s*$/);
     if (hunkMatch) {
       // Save previous hunk if any
       if (currentHunkId) {
@@ -543,53 +622,114 @@ function createSelectionWithRemovals(
   }
 }
 
+/**
+ * Build the hunk a selection stages: the hunk with unselected changes left out and line edits made
+ */
+export function selectionToHunk(hunk: Hunk, selection: HunkSelection): Hunk {
+  // Whole-file units, submodule pointers included, can't be cut down to lines
+  if ((selection.mode === 'all' && !selection.lineEdits?.length) || hunk.kind) {
+    return hunk;
+  }
+
+  const addIndices = hunk.lines
+    .map((l, i) => ({ type: l.type, index: i }))
+    .filter(x => x.type === 'add')
+    .map(x => x.index);
+
+  const removeIndices = hunk.lines
+    .map((l, i) => ({ type: l.type, index: i }))
+    .filter(x => x.type === 'remove')
+    .map(x => x.index);
+
+  // For additions: if mode is 'all', include all; else include only selected
+  const includeAddSet = selection.mode === 'all'
+    ? new Set(addIndices)
+    : new Set(selection.includeAdditions || []);
+  const removeAdditions = addIndices.filter(i => !includeAddSet.has(i));
+
+  // For removals: if mode is 'all', include all; else only selected (others become context)
+  const includeRemoveSet = selection.mode === 'all'
+    ? new Set(removeIndices)
+    : new Set(selection.includeRemovals || []);
+  const keepRemovals = removeIndices.filter(i => !includeRemoveSet.has(i));
+
+  return editHunk(hunk, { removeAdditions, keepRemovals, editLines: selection.lineEdits });
+}
+
+/**
+ * Indices of the added and removed lines a selection stages
+ */
+export function selectedLineIndices(hunk: Hunk, selection: HunkSelection): number[] {
+  if (selection.mode === 'none' || hunk.kind) return [];
+  if (selection.mode === 'all') {
+    return hunk.lines.flatMap((line, i) => (line.type === 'context' ? [] : [i]));
+  }
+  return [...(selection.includeAdditions ?? []), ...(selection.includeRemovals ?? [])];
+}
+
+/**
+ * Describe the first move a plan stages only one half of
+ */
+function findSplitMove(diff: ParsedDiff, plan: StagingPlan): string | undefined {
+  const selected = new Map<string, Set<number>>();
+  for (const selection of plan.selections) {
+    const hunk = diff.getHunk(selection.hunkId);
+    if (!hunk) continue;
+    const lines = selected.get(hunk.id) ?? new Set<number>();
+    selectedLineIndices(hunk, selection).forEach(i => lines.add(i));
+    selected.set(hunk.id, lines);
+  }
+
+  const stages = (side: { hunkId: string; lineIndices: number[] }) =>
+    side.lineIndices.some(i => selected.get(side.hunkId)?.has(i));
+  for (const move of findMoves(diff.getAllHunks())) {
+    if (stages(move.from) !== stages(move.to)) {
+      const [staged, left] = stages(move.from) ? [move.from, move.to] : [move.to, move.from];
+      return `Code moved from ${move.from.hunkId} to ${move.to.hunkId} must be staged whole: the plan stages ${staged.hunkId} but not ${left.hunkId}`;
+    }
+  }
+  return undefined;
+}
+
 /**
  * Execute a staging plan
  */
 export function executeStagingPlan(
   diff: ParsedDiff,
-  plan: StagingPlan
+  plan: StagingPlan,
+  options: StagingPlanOptions = {}
 ): { success: boolean; error?: string; stagedHunks: string[] } {
   const stagedHunks: string[] = [];
+  if (options.keepMovesTogether) {
+    const splitMove = findSplitMove(diff, plan);
+    if (splitMove) {
+      return { success: false, error: splitMove, stagedHunks };
+    }
+  }
+  // Files whose rename/copy an earlier selection already put in the index
+  const stagedRenames = new Set<string>();
 
   for (const selection of plan.selections) {
     if (selection.mode === 'none') continue;
 
-    const hunk = diff.getHunk(selection.hunkId);
+    let hunk = diff.getHunk(selection.hunkId);
     if (!hunk) {
       return { success: false, error: `Hunk not found: ${selection.hunkId}`, stagedHunks };
     }
 
-    let patch: string;
+    if (hunk.oldFile && stagedRenames.has(hunk.file)) {
+      if (hunk.kind === 'rename' || hunk.kind === 'copy') {
+        stagedHunks.push(selection.hunkId);
+        continue;
+      }
+      hunk = withRenameApplied(hunk);
+    }
 
-    if (selection.mode === 'all' && !selection.lineEdits?.length) {
-      patch = generatePatch([hunk]);
-    } else {
-      // Partial: need to edit hunk to include only selected changes
-      const addIndices = hunk.lines
-        .map((l, i) => ({ type: l.type, index: i }))
-        .filter(x => x.type === 'add')
-        .map(x => x.index);
-
-      const removeIndices = hunk.lines
-        .map((l, i) => ({ type: l.type, index: i }))
-        .filter(x => x.type === 'remove')
-        .map(x => x.index);
-
-      // For additions: if mode is 'all', include all; else include only selected
-      const includeAddSet = selection.mode === 'all'
-        ? new Set(addIndices)
-        : new Set(selection.includeAdditions || []);
-      const removeAdditions = addIndices.filter(i => !includeAddSet.has(i));
-
-      // For removals: if mode is 'all', include all; else only selected (others become context)
-      const includeRemoveSet = selection.mode === 'all'
-        ? new Set(removeIndices)
-        : new Set(selection.includeRemovals || []);
-      const keepRemovals = removeIndices.filter(i => !includeRemoveSet.has(i));
-
-      const edited = editHunk(hunk, { removeAdditions, keepRemovals });
-      patch = generatePatch([edited]);
+    let patch: string;
+    try {
+      patch = generatePatch([selectionToHunk(hunk, selection)]);
+    } catch (error: any) {
+      return { success: false, error: error.message, stagedHunks };
     }
 
     // Validate before applying
@@ -612,6 +752,9 @@ export function executeStagingPlan(
     }
 
     stagedHunks.push(selection.hunkId);
+    if (hunk.oldFile) {
+      stagedRenames.add(hunk.file);
+    }
   }
 
   return { success: true, stagedHunks };
@@ -753,6 +896,10 @@ export function getStagingSummary(): string {
   lines.push('');
 
   for (const file of diff.files) {
+    if (file.isBinary) {
+      lines.push(`- ${file.newPath}: binary file`);
+      continue;
+    }
     const addCount = file.hunks.flatMap(h => h.lines).filter(l => l.type === 'add').length;
     const removeCount = file.hunks.flatMap(h => h.lines).filter(l => l.type === 'remove').length;
     lines.push(`- ${file.newPath}: +${addCount}/-${removeCount} lines`);
@@ -769,6 +916,7 @@ export function getStagingSummary(): string {
       for (const line of hunk.lines) {
         const prefix = line.type === 'context' ? ' ' : line.type === 'add' ? '+' : '-';
         lines.push(`${prefix}${line.content}`);
+        if (line.noNewlineAtEof) lines.push(NO_NEWLINE_MARKER);
       }
     }
   }
@@ -798,6 +946,8 @@ export interface StagingWorksheet {
         content: string;
         /** LLM sets this for partial selection */
         include: boolean;
+        /** LLM sets this to stage the line with different content (level 5); implies include */
+        newContent?: string;
       }[];
     }[];
   }[];
@@ -837,14 +987,19 @@ export function generateWorksheet(diff: ParsedDiff, commitMessage: string = ''):
  */
 export function executeWorksheet(
   diff: ParsedDiff,
-  worksheet: StagingWorksheet
+  worksheet: StagingWorksheet,
+  options: StagingPlanOptions = {}
 ): { success: boolean; error?: string; stagedHunks: string[] } {
   const selections: HunkSelection[] = [];
 
   for (const file of worksheet.files) {
     for (const hunk of file.hunks) {
+      const lineEdits = hunk.lines
+        .filter(l => l.newContent !== undefined && l.newContent !== l.content)
+        .map(l => ({ lineIndex: l.index, newContent: l.newContent! }));
+
       if (hunk.include === 'all') {
-        selections.push({ hunkId: hunk.id, mode: 'all' });
+        selections.push({ hunkId: hunk.id, mode: 'all', lineEdits: lineEdits.length > 0 ? lineEdits : undefined });
       } else if (hunk.include === 'partial') {
         const includeAdditions = hunk.lines
           .filter(l => l.include && l.type === 'add')
@@ -857,11 +1012,12 @@ export function executeWorksheet(
           mode: 'partial',
           includeAdditions: includeAdditions.length > 0 ? includeAdditions : undefined,
           includeRemovals: includeRemovals.length > 0 ? includeRemovals : undefined,
+          lineEdits: lineEdits.length > 0 ? lineEdits : undefined,
         });
       }
       // 'none' is implicitly skipped
     }
   }
 
-  return executeStagingPlan(diff, { commitMessage: worksheet.commitMessage, selections });
+  return executeStagingPlan(diff, { commitMessage: worksheet.commitMessage, selections }, options);
 }
@@ -124,6 +124,31 @@ describe('hunkToLLMHunk', () => {
     expect(result.splittable).toBe(true);
     expect(result.splitCount).toBe(2);
   });
+
+  it('reports where a run of changes can be cut', () => {
+    const hunk = makeHunk({
+      lines: [
+        { type: 'context', content: 'before' },
+        { type: 'add', content: 'feature A' },
+        { type: 'add', content: 'feature B' },
+        { type: 'add', content: 'feature B, again' },
+        { type: 'context', content: 'after' },
+      ],
+    });
+    const result = hunkToLLMHunk(hunk);
+    expect(result.splittable).toBe(false);
+    expect(result.cutRange).toEqual({ first: 2, last: 3 });
+  });
+
+  it('offers the cut between a single removal and its addition', () => {
+    const hunk = makeHunk({
+      lines: [
+        { type: 'remove', content: 'old' },
+        { type: 'add', content: 'new' },
+      ],
+    });
+    expect(hunkToLLMHunk(hunk).cutRange).toEqual({ first: 1, last: 1 });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -164,6 +189,7 @@ Total: 1 hunk(s) across 1 file(s)
 ### Hunk: src/app.ts:0
 Context: myFunction
 Summary: +1 lines, -1 lines
+Can be cut before any line from [2] to [2] (\`split_first\` with \`splitAt\`)
 
 \`\`\`
 [ 0]   5:  5   const x = 1;
@@ -193,10 +219,12 @@ For each logical commit, specify which hunks/lines belong together:
 }
 \`\`\`
 
+Hunks can be given by ID or by stable ID; stable IDs stay valid after other hunks are staged.
+
 Actions:
 - \`stage_all\`: Include entire hunk
 - \`stage_partial\`: Include only specified line indices
-- \`split_first\`: Split hunk, then stage resulting sub-hunks
+- \`split_first\`: Split hunk (at context gaps, or before the line indices in \`splitAt\`), then stage resulting sub-hunks
 - \`edit_line\`: Modify a line's content before staging`
     );
   });
@@ -239,4 +267,81 @@ describe('analyzeHunks', () => {
     expect(result.complexHunks).toEqual(['b.ts:0']);
     expect(result.splittableHunks).toEqual(['c.ts:0']);
   });
+
+  it('treats binary units as simple whole-file hunks', () => {
+    const binary = makeHunk({ id: 'logo.png:0', file: 'logo.png', kind: 'binary', lines: [] });
+    const result = analyzeHunks(makeParsedDiff([{
+      oldPath: 'logo.png', newPath: 'logo.png',
+      isNew: false, isDeleted: false, isRenamed: false, isBinary: true,
+      hunks: [binary],
+    }]));
+
+    expect(result.simpleHunks).toEqual(['logo.png:0']);
+    expect(result.files[0].hunks[0]).toMatchObject({ kind: 'binary', summary: 'binary file', splittable: false });
+  });
+
+  it('puts hunks that only change whitespace in their own category', () => {
+    const reindent = makeHunk({
+      id: 'a.ts:0', file: 'a.ts',
+      lines: [
+        { type: 'remove', content: 'return total;' },
+        { type: 'remove', content: 'done();' },
+        { type: 'add', content: '  return total;' },
+        { type: 'add', content: '  done();' },
+      ],
+    });
+    const result = analyzeHunks(makeParsedDiff([{
+      oldPath: 'a.ts', newPath: 'a.ts',
+      isNew: false, isDeleted: false, isRenamed: false,
+      hunks: [reindent],
+    }]));
+
+    expect(result.formattingHunks).toEqual(['a.ts:0']);
+    expect(result.complexHunks).toEqual([]);
+    expect(result.files[0].hunks[0].whitespaceOnly).toBe(true);
+  });
+
+  it('lists dependencies between hunks when asked to', () => {
+    const helper = makeHunk({ id: 'util.ts:0', file: 'util.ts', lines: [{ type: 'add', content: 'export const retryLimit = 3;' }] });
+    const user = makeHunk({ id: 'app.ts:0', file: 'app.ts', lines: [{ type: 'add', content: 'retry(retryLimit);' }] });
+    const makeFile = (h: Hunk): FileDiff => ({
+      oldPath: h.file, newPath: h.file,
+      isNew: false, isDeleted: false, isRenamed: false,
+      hunks: [h],
+    });
+
+    const diff = makeParsedDiff([makeFile(user), makeFile(helper)]);
+    expect(analyzeHunks(diff).dependencies).toBeUndefined();
+
+    const result = analyzeHunks(diff, { detectDependencies: true });
+    expect(result.dependencies).toEqual([
+      { from: 'util.ts:0', to: 'app.ts:0', reason: 'identifier', identifier: 'retryLimit' },
+    ]);
+  });
+
+  it('lists moved code when asked to, and marks it on both halves', () => {
+    const moved = ['export function retry(times: number) {', '  return attempt(times);', '}'];
+    const removal = makeHunk({ id: 'util.ts:0', file: 'util.ts', lines: moved.map(content => ({ type: 'remove' as const, content })) });
+    const addition = makeHunk({ id: 'app.ts:0', file: 'app.ts', lines: moved.map(content => ({ type: 'add' as const, content })) });
+    const makeFile = (h: Hunk): FileDiff => ({
+      oldPath: h.file, newPath: h.file,
+      isNew: false, isDeleted: false, isRenamed: false,
+      hunks: [h],
+    });
+    const diff = makeParsedDiff([makeFile(removal), makeFile(addition)]);
+
+    expect(analyzeHunks(diff).moves).toBeUndefined();
+    expect(formatHunksForLLM(diff)).not.toContain('↔');
+
+    const result = analyzeHunks(diff, { detectMoves: true });
+    expect(result.moves).toEqual([
+      { from: { hunkId: 'util.ts:0', lineIndices: [0, 1, 2] }, to: { hunkId: 'app.ts:0', lineIndices: [0, 1, 2] }, similarity: 1 },
+    ]);
+    expect(result.files[1].hunks[0].moves).toEqual([
+      { direction: 'from', lineIndices: [0, 1, 2], otherHunkId: 'util.ts:0', otherLineIndices: [0, 1, 2], similarity: 1 },
+    ]);
+    expect(formatHunksForLLM(diff, { detectMoves: true })).toContain(
+      '↔ Lines [0-2] moved to app.ts:0 as [0-2] (100% similar): stage both halves in the same commit'
+    );
+  });
 });
@@ -11,8 +11,12 @@
  * Level 5: Single line has mixed changes → line content editing
  */
 
-import { DiffLine, Hunk, ParsedDiff } from './types.js';
-import { isSplittable, splitHunk } from './manipulator.js';
+import { DiffLine, Hunk, HunkKind, ParsedDiff } from './types.js';
+import { isSplittable, isWhitespaceOnly, splitHunk } from './manipulator.js';
+import { NO_NEWLINE_MARKER } from './parser.js';
+import { describeSubmoduleChange } from './formatter.js';
+import { findDependencies, HunkDependency } from './dependencies.js';
+import { findMoves, MovePair } from './moves.js';
 
 /**
  * An indexed line within a hunk, addressable by the LLM
@@ -28,6 +32,8 @@ export interface IndexedLine {
   oldLineNo?: number;
   /** Line number in new file (undefined for removals) */
   newLineNo?: number;
+  /** True when this is the last line of its file and has no trailing newline */
+  noNewlineAtEof?: boolean;
 }
 
 /**
@@ -36,6 +42,8 @@ export interface IndexedLine {
 export interface LLMHunk {
   /** Unique ID for this hunk */
   id: string;
+  /** Content-derived ID that still finds this change after other hunks are staged */
+  stableId?: string;
   /** File path */
   file: string;
   /** Function/class context if available */
@@ -44,6 +52,8 @@ export interface LLMHunk {
   splittable: boolean;
   /** If splittable, how many sub-hunks would result? */
   splitCount?: number;
+  /** Line indices the hunk can be cut before with `split_first` and `splitAt`, even inside a run of changes (set when it has more than one changed line in total) */
+  cutRange?: { first: number; last: number };
   /** Summary of changes */
   summary: string;
   /** Indexed lines for granular selection */
@@ -54,6 +64,28 @@ export interface LLMHunk {
   removedLineIndices: number[];
   /** Complexity level (1-5) based on what's needed to separate concerns */
   complexityHint: number;
+  /** Set for whole-file units (binary files, mode changes, renames, submodule pointers) that can only be staged as a whole */
+  kind?: HunkKind;
+  /** Code moved between this hunk and others, which has to be staged together with its other half */
+  moves?: LLMMove[];
+  /** Set when every change only touches whitespace (reindentation, trailing spaces, blank lines) */
+  whitespaceOnly?: boolean;
+}
+
+/**
+ * One half of a move, as seen from the hunk it is in
+ */
+export interface LLMMove {
+  /** 'to' for removed lines that reappear in the other hunk, 'from' for added lines that were removed from it */
+  direction: 'to' | 'from';
+  /** The moved lines of this hunk */
+  lineIndices: number[];
+  /** The hunk with the other half */
+  otherHunkId: string;
+  /** The moved lines of the other hunk */
+  otherLineIndices: number[];
+  /** How alike the two halves are, from 0 to 1 */
+  similarity: number;
 }
 
 /**
@@ -64,6 +96,8 @@ export interface StagingInstruction {
   hunkId: string;
   /** Action to take */
   action: 'stage_all' | 'stage_partial' | 'split_first' | 'edit_line';
+  /** For split_first: line indices to cut the hunk before, into pieces staged one after another (default: cut at context gaps) */
+  splitAt?: number[];
   /** For stage_partial: which added line indices to include */
   includeAdditions?: number[];
   /** For stage_partial: which removed line indices to convert to context (keep the line) */
@@ -77,8 +111,10 @@ export interface StagingInstruction {
 
 /**
  * Convert a Hunk to an LLM-friendly representation with indexed lines
+ *
+ * @param moves - Moves found across the whole diff (findMoves); those involving this hunk are listed on it
  */
-export function hunkToLLMHunk(hunk: Hunk): LLMHunk {
+export function hunkToLLMHunk(hunk: Hunk, moves: MovePair[] = []): LLMHunk {
   const lines: IndexedLine[] = [];
   const addedLineIndices: number[] = [];
   const removedLineIndices: number[] = [];
@@ -92,6 +128,9 @@ export function hunkToLLMHunk(hunk: Hunk): LLMHunk {
       type: line.type,
       content: line.content,
     };
+    if (line.noNewlineAtEof) {
+      indexed.noNewlineAtEof = true;
+    }
 
     if (line.type === 'context') {
       indexed.oldLineNo = oldLine++;
@@ -119,7 +158,12 @@ export function hunkToLLMHunk(hunk: Hunk): LLMHunk {
     complexityHint = Math.min(complexityHint, 3); // Can be split, so probably level 3
   }
 
-  return {
+  // A cut needs a change on either side of it
+  const changeIndices = [...removedLineIndices, ...addedLineIndices];
+  const firstChange = Math.min(...changeIndices);
+  const lastChange = Math.max(...changeIndices);
+
+  const llmHunk: LLMHunk = {
     id: hunk.id,
     file: hunk.file,
     context: hunk.context,
@@ -131,12 +175,72 @@ export function hunkToLLMHunk(hunk: Hunk): LLMHunk {
     removedLineIndices,
     complexityHint,
   };
+  if (hunk.stableId) {
+    llmHunk.stableId = hunk.stableId;
+  }
+  if (!hunk.kind && !hunk.parentRanges && addedLineIndices.length + removedLineIndices.length > 1) {
+    llmHunk.cutRange = { first: firstChange + 1, last: lastChange };
+  }
+  if (hunk.kind) {
+    llmHunk.kind = hunk.kind;
+  }
+  if (isWhitespaceOnly(hunk)) {
+    llmHunk.whitespaceOnly = true;
+  }
+
+  const hunkMoves = moves.flatMap((move): LLMMove[] => {
+    if (move.from.hunkId === hunk.id) {
+      return [{ direction: 'to', lineIndices: move.from.lineIndices, otherHunkId: move.to.hunkId, otherLineIndices: move.to.lineIndices, similarity: move.similarity }];
+    }
+    if (move.to.hunkId === hunk.id) {
+      return [{ direction: 'from', lineIndices: move.to.lineIndices, otherHunkId: move.from.hunkId, otherLineIndices: move.from.lineIndices, similarity: move.similarity }];
+    }
+    return [];
+  });
+  if (hunkMoves.length > 0) {
+    llmHunk.moves = hunkMoves;
+  }
+  return llmHunk;
+}
+
+/**
+ * Describe one half of a move, e.g. "Lines [3-9] moved to lib.js:0 as [1-7] (95% similar)"
+ */
+export function describeMove(move: LLMMove): string {
+  const where = move.direction === 'to' ? 'moved to' : 'moved from';
+  const similarity = Math.round(move.similarity * 100);
+  return `Lines ${formatIndices(move.lineIndices)} ${where} ${move.otherHunkId} as ${formatIndices(move.otherLineIndices)} (${similarity}% similar)`;
+}
+
+/**
+ * Line indices as "[3-9]" when consecutive, "[3, 5, 6]" otherwise
+ */
+function formatIndices(indices: number[]): string {
+  const first = indices[0];
+  const last = indices[indices.length - 1];
+  if (indices.length > 1 && last - first === indices.length - 1) {
+    return `[${first}-${last}]`;
+  }
+  return `[${indices.join(', ')}]`;
 }
 
 /**
  * Generate a summary of what changes a hunk contains
  */
 function summarizeChanges(hunk: Hunk): string {
+  if (hunk.kind === 'binary') {
+    return 'binary file';
+  }
+  if (hunk.kind === 'mode') {
+    return `mode change ${hunk.fileHeader?.oldMode} → ${hunk.fileHeader?.newMode}`;
+  }
+  if (hunk.kind === 'rename' || hunk.kind === 'copy') {
+    return `${hunk.kind} from ${hunk.oldFile}`;
+  }
+  if (hunk.kind === 'submodule' && hunk.fileHeader?.submodule) {
+    return `submodule ${describeSubmoduleChange(hunk.fileHeader.submodule)}`;
+  }
+
   const adds = hunk.lines.filter(l => l.type === 'add');
   const removes = hunk.lines.filter(l => l.type === 'remove');
 
@@ -151,13 +255,24 @@ function summarizeChanges(hunk: Hunk): string {
   return parts.join(', ');
 }
 
+/**
+ * Options for describing hunks to an LLM
+ */
+export interface HunkAnalysisOptions {
+  /** Find code moved between hunks (findMoves) and point it out on both halves (default: off, as it is slow on large diffs) */
+  detectMoves?: boolean;
+  /** Find hunks that must be committed with or after others (findDependencies) (default: off, as it is slow on large diffs) */
+  detectDependencies?: boolean;
+}
+
 /**
  * Format hunks for LLM with full detail for decision-making
  * This is the primary interface an MCP would expose via get_hunks
  */
-export function formatHunksForLLM(diff: ParsedDiff): string {
+export function formatHunksForLLM(diff: ParsedDiff, options: HunkAnalysisOptions = {}): string {
   const allHunks = diff.getAllHunks();
-  const llmHunks = allHunks.map(hunkToLLMHunk);
+  const moves = options.detectMoves ? findMoves(allHunks) : [];
+  const llmHunks = allHunks.map(hunk => hunkToLLMHunk(hunk, moves));
 
   const sections: string[] = [];
 
@@ -204,10 +319,12 @@ export function formatHunksForLLM(diff: ParsedDiff): string {
   sections.push('}');
   sections.push('```');
   sections.push('');
+  sections.push('Hunks can be given by ID or by stable ID; stable IDs stay valid after other hunks are staged.');
+  sections.push('');
   sections.push('Actions:');
   sections.push('- `stage_all`: Include entire hunk');
   sections.push('- `stage_partial`: Include only specified line indices');
-  sections.push('- `split_first`: Split hunk, then stage resulting sub-hunks');
+  sections.push('- `split_first`: Split hunk (at context gaps, or before the line indices in `splitAt`), then stage resulting sub-hunks');
   sections.push('- `edit_line`: Modify a line\'s content before staging');
 
   return sections.join('\n');
@@ -221,14 +338,43 @@ function formatSingleHunkForLLM(hunk: LLMHunk): string {
 
   // Header
   lines.push(`### Hunk: ${hunk.id}`);
+  if (hunk.stableId && hunk.stableId !== hunk.id) {
+    lines.push(`Stable ID: ${hunk.stableId}`);
+  }
   if (hunk.context) {
     lines.push(`Context: ${hunk.context}`);
   }
   lines.push(`Summary: ${hunk.summary}`);
 
+  if (hunk.whitespaceOnly) {
+    lines.push('Whitespace only: can go in a formatting commit of its own');
+  }
   if (hunk.splittable) {
     lines.push(`⚠ Splittable: Can be split into ${hunk.splitCount} sub-hunks`);
   }
+  if (hunk.cutRange) {
+    lines.push(`Can be cut before any line from [${hunk.cutRange.first}] to [${hunk.cutRange.last}] (\`split_first\` with \`splitAt\`)`);
+  }
+  for (const move of hunk.moves ?? []) {
+    lines.push(`↔ ${describeMove(move)}: stage both halves in the same commit`);
+  }
+
+  if (hunk.kind === 'binary') {
+    lines.push('Binary file: can only be staged as a whole (`stage_all`)');
+    return lines.join('\n');
+  }
+  if (hunk.kind === 'mode') {
+    lines.push('Mode change: stage with `stage_all`, independently of the content hunks');
+    return lines.join('\n');
+  }
+  if (hunk.kind === 'rename' || hunk.kind === 'copy') {
+    lines.push(`Pure ${hunk.kind}: stage with \`stage_all\`; content hunks of this file can go in later commits`);
+    return lines.join('\n');
+  }
+  if (hunk.kind === 'submodule') {
+    lines.push('Submodule pointer: can only be staged as a whole (`stage_all`)');
+    return lines.join('\n');
+  }
 
   lines.push('');
   lines.push('```');
@@ -239,6 +385,9 @@ function formatSingleHunkForLLM(hunk: LLMHunk): string {
     const lineNos = formatLineNumbers(line);
     const indexTag = `[${String(line.index).padStart(2)}]`;
     lines.push(`${indexTag} ${lineNos} ${prefix} ${line.content}`);
+    if (line.noNewlineAtEof) {
+      lines.push(`${' '.repeat(indexTag.length + lineNos.length + 2)}${NO_NEWLINE_MARKER}`);
+    }
   }
 
   lines.push('```');
@@ -279,15 +428,22 @@ export interface HunkAnalysis {
   splittableHunks: string[];
   /** Hunks that may need line-level selection (level 4+) */
   complexHunks: string[];
+  /** Hunks that only change whitespace, for a formatting commit */
+  formattingHunks: string[];
+  /** Hunks that must be committed with or after others, e.g. uses of a function another hunk adds (with detectDependencies) */
+  dependencies?: HunkDependency[];
+  /** Code removed in one hunk and added in another, whose halves belong in the same commit (with detectMoves) */
+  moves?: MovePair[];
 }
 
 /**
  * Analyze hunks and categorize by complexity
  * This could be returned as JSON from an MCP tool
  */
-export function analyzeHunks(diff: ParsedDiff): HunkAnalysis {
+export function analyzeHunks(diff: ParsedDiff, options: HunkAnalysisOptions = {}): HunkAnalysis {
   const allHunks = diff.getAllHunks();
-  const llmHunks = allHunks.map(hunkToLLMHunk);
+  const moves = options.detectMoves ? findMoves(allHunks) : [];
+  const llmHunks = allHunks.map(hunk => hunkToLLMHunk(hunk, moves));
 
   const byFile = new Map<string, LLMHunk[]>();
   for (const h of llmHunks) {
@@ -299,9 +455,15 @@ export function analyzeHunks(diff: ParsedDiff): HunkAnalysis {
   const simpleHunks: string[] = [];
   const splittableHunks: string[] = [];
   const complexHunks: string[] = [];
+  const formattingHunks: string[] = [];
 
   for (const hunk of llmHunks) {
-    if (hunk.splittable) {
+    if (hunk.kind) {
+      // Whole-file units (binary files, mode changes, renames, submodules) have no lines to select
+      simpleHunks.push(hunk.id);
+    } else if (hunk.whitespaceOnly) {
+      formattingHunks.push(hunk.id);
+    } else if (hunk.splittable) {
       splittableHunks.push(hunk.id);
     } else if (hunk.addedLineIndices.length <= 1 && hunk.removedLineIndices.length <= 1) {
       simpleHunks.push(hunk.id);
@@ -316,5 +478,8 @@ export function analyzeHunks(diff: ParsedDiff): HunkAnalysis {
     simpleHunks,
     splittableHunks,
     complexHunks,
+    formattingHunks,
+    ...(options.detectDependencies ? { dependencies: findDependencies(allHunks) } : {}),
+    ...(options.detectMoves ? { moves } : {}),
   };
 }
@@ -2,12 +2,20 @@ import { parseDiff } from '../src/parser';
 import {
   isSplittable,
   splitHunk,
+  splitHunkAt,
+  splitHunkAtIndices,
+  classifyLineChanges,
+  splitWhitespaceChanges,
+  joinHunks,
   selectHunks,
   selectHunksWithLines,
+  subtractSelections,
   editHunk,
   generatePatch,
   recalculateHeader,
+  withRenameApplied,
 } from '../src/manipulator';
+import { applyHunksToContent } from '../src/apply';
 import { Hunk } from '../src/types';
 
 describe('isSplittable', () => {
@@ -83,6 +91,50 @@ describe('splitHunk', () => {
     expect(result.length).toBeGreaterThan(1);
   });
 
+  it('should give every line to exactly one sub-hunk', () => {
+    const diff = parseDiff(`diff --git a/a.txt b/a.txt
+--- a/a.txt
++++ b/a.txt
+@@ -1,6 +1,7 @@
+ line 1
++added 1
+ line 2
+ line 3
+-line 4
+ line 5
+ line 6
+`);
+    const parts = splitHunk(diff.getAllHunks()[0]);
+
+    expect(parts.map(p => p.header)).toEqual(['@@ -1,2 +1,3 @@', '@@ -3,4 +4,3 @@']);
+    expect(parts.flatMap(p => p.lines)).toEqual(diff.getAllHunks()[0].lines);
+  });
+
+  it('should keep the rename in the patch of each sub-hunk', () => {
+    const diff = parseDiff(`diff --git a/old.txt b/new.txt
+similarity index 80%
+rename from old.txt
+rename to new.txt
+index 0719398..e0b0065 100644
+--- a/old.txt
++++ b/new.txt
+@@ -1,6 +1,6 @@
+-line 1
++LINE 1
+ line 2
+ line 3
+ line 4
+ line 5
+-line 6
++LINE 6
+`);
+    const parts = splitHunk(diff.getHunk('new.txt:0')!);
+
+    expect(parts).toHaveLength(2);
+    expect(parts[1]).toMatchObject({ file: 'new.txt', oldFile: 'old.txt' });
+    expect(generatePatch([parts[1]])).toMatch(/^diff --git a\/old\.txt b\/new\.txt\n(.*\n)*rename from old\.txt\nrename to new\.txt\n/);
+  });
+
   it('should return original hunk if not splittable', () => {
     const hunk: Hunk = {
       id: 'test:0',
@@ -106,6 +158,171 @@ describe('splitHunk', () => {
   });
 });
 
+describe('splitHunkAt', () => {
+  const diff = parseDiff(`diff --git a/app.js b/app.js
+--- a/app.js
++++ b/app.js
+@@ -4,4 +4,6 @@
+ a
+ b
+-c
++one
++two
++three
+ d
+`);
+  const hunk = diff.getAllHunks()[0];
+
+  it('should cut inside a run of changes, giving each piece real context', () => {
+    const [first, second] = splitHunkAt(hunk, 4);
+    expect(first.id).toBe('app.js:0.0');
+    expect(first.header).toBe('@@ -4,4 +4,4 @@');
+    expect(first.lines.map(l => `${l.type[0]}${l.content}`)).toEqual(['ca', 'cb', 'rc', 'aone', 'cd']);
+    // The second piece starts from the file as the first leaves it, with as much context as the hunk had
+    expect(second.header).toBe('@@ -5,3 +5,5 @@');
+    expect(second.lines.map(l => `${l.type[0]}${l.content}`)).toEqual(['cb', 'cone', 'atwo', 'athree', 'cd']);
+  });
+
+  it('should cut at several indices', () => {
+    const pieces = splitHunkAtIndices(hunk, [5, 3, 4]);
+    expect(pieces.map(p => p.lines.filter(l => l.type !== 'context').map(l => l.content))).toEqual([
+      ['c'], ['one'], ['two'], ['three'],
+    ]);
+    expect(pieces.map(p => p.header)).toEqual(['@@ -4,4 +4,3 @@', '@@ -4,3 +4,4 @@', '@@ -5,3 +5,4 @@', '@@ -6,3 +6,4 @@']);
+  });
+
+  it('should stage piece by piece to the same result', () => {
+    const file = 'x\ny\nz\na\nb\nc\nd\n';
+    let content = file;
+    for (const piece of splitHunkAtIndices(hunk, [3, 4, 5])) {
+      content = applyHunksToContent(content, [piece]).content;
+    }
+    expect(content).toBe(applyHunksToContent(file, [hunk]).content);
+  });
+
+  it('should refuse cuts that leave a piece without changes', () => {
+    expect(() => splitHunkAt(hunk, 1)).toThrow('lines 0-0: they have no changes');
+    expect(() => splitHunkAt(hunk, 7)).toThrow('it has lines 0-6');
+  });
+});
+
+describe('whitespace changes', () => {
+  const diff = parseDiff(`diff --git a/sum.js b/sum.js
+--- a/sum.js
++++ b/sum.js
+@@ -1,4 +1,5 @@
+ function total(items) {
+-return items.reduce(add, 0);
+-  let count = 0;
++  return items.reduce(add, 0);
++  let count = 1;
++
+ }
+`);
+  const hunk = diff.getAllHunks()[0];
+  const file = 'function total(items) {\nreturn items.reduce(add, 0);\n  let count = 0;\n}\n';
+
+  it('should pair lines that differ only in whitespace, and count lone blank lines as whitespace', () => {
+    expect(classifyLineChanges(hunk)).toEqual([
+      { removeIndex: 1, addIndex: 3, whitespaceOnly: true },
+      { removeIndex: 2, addIndex: 4, whitespaceOnly: false },
+      { addIndex: 5, whitespaceOnly: true },
+    ]);
+  });
+
+  it('should split off the whitespace changes', () => {
+    const [whitespace, semantic] = splitWhitespaceChanges(hunk);
+    expect(whitespace.id).toBe('sum.js:0.0');
+    expect(whitespace.header).toBe('@@ -1,4 +1,5 @@');
+    expect(whitespace.lines.map(l => `${l.type[0]}${l.content}`)).toEqual([
+      'cfunction total(items) {', 'rreturn items.reduce(add, 0);', 'a  return items.reduce(add, 0);', 'c  let count = 0;', 'a', 'c}',
+    ]);
+    // Shows the reindented line as already made, with the hunk's one line of context on each side
+    expect(semantic.header).toBe('@@ -2,3 +2,3 @@');
+    expect(semantic.lines.map(l => `${l.type[0]}${l.content}`)).toEqual([
+      'c  return items.reduce(add, 0);', 'r  let count = 0;', 'a  let count = 1;', 'c',
+    ]);
+  });
+
+  it('should stage the two pieces in either order to the same result', () => {
+    const expected = applyHunksToContent(file, [hunk]).content;
+    for (const first of ['whitespace', 'semantic'] as const) {
+      let content = file;
+      for (const piece of splitWhitespaceChanges(hunk, first)) {
+        const result = applyHunksToContent(content, [piece]);
+        expect(result.hunks[0].status).toBe('applied');
+        content = result.content;
+      }
+      expect(content).toBe(expected);
+    }
+  });
+
+  it('should refuse hunks with only one kind of change', () => {
+    const reindent = parseDiff(`diff --git a/a.js b/a.js
+--- a/a.js
++++ b/a.js
+@@ -1 +1 @@
+-go();
++  go();
+`).getAllHunks()[0];
+    expect(() => splitWhitespaceChanges(reindent)).toThrow("Hunk a.js:0 can't be split by whitespace: its changes are all whitespace-only");
+  });
+});
+
+describe('joinHunks', () => {
+  const diff = parseDiff(`diff --git a/app.js b/app.js
+--- a/app.js
++++ b/app.js
+@@ -1,7 +1,8 @@ start
+ line 1
++added 1
+ line 2
+ line 3
+ line 4
+-line 5
++changed 5
+ line 6
+ line 7
+@@ -20,2 +21,3 @@
+ line 20
++added 2
+ line 21
+`);
+  const [first, second] = diff.getAllHunks();
+
+  it('should undo splitHunk', () => {
+    const parts = splitHunk(first);
+    expect(parts).toHaveLength(2);
+
+    const joined = joinHunks(parts);
+    expect(joined.id).toBe('app.js:0.0+0.1');
+    expect(joined.lines).toEqual(first.lines);
+    expect(joined.header).toBe('@@ -1,7 +1,8 @@ start');
+  });
+
+  it('should accept hunks in any order and drop overlapping context', () => {
+    const overlapping = { ...first, id: 'app.js:9', oldStart: 6, oldCount: 2, newStart: 7, newCount: 2, lines: first.lines.slice(7) };
+    expect(joinHunks([overlapping, first]).lines).toEqual(first.lines);
+  });
+
+  it('should fill a gap from the content provider', () => {
+    const oldContent = Array.from({ length: 25 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+    const joined = joinHunks([first, second], { readFile: () => oldContent });
+
+    expect(joined.header).toBe('@@ -1,21 +1,23 @@ start');
+    expect(joined.lines.slice(9, 13).map(l => l.content)).toEqual(['line 8', 'line 9', 'line 10', 'line 11']);
+    expect(generatePatch([joined])).toContain('+added 2\n line 21\n');
+  });
+
+  it('should refuse incompatible hunks', () => {
+    expect(() => joinHunks([first, second])).toThrow('lines 8-19 between them are unknown');
+    expect(() => joinHunks([first, { ...second, file: 'other.js' }])).toThrow('different files');
+    expect(() => joinHunks([first, { ...first, id: 'app.js:9' }])).toThrow('both change line 2');
+    expect(() => joinHunks([first, { ...second, kind: 'mode' }])).toThrow('it is a mode unit');
+    expect(() => joinHunks([])).toThrow('No hunks to join');
+  });
+});
+
 describe('selectHunks', () => {
   it('should select hunks by ID', () => {
     const diff = parseDiff(`diff --git a/file1.txt b/file1.txt
@@ -248,6 +465,57 @@ describe('editHunk', () => {
     expect(edited.oldCount).toBe(3); // 3 context lines in old file
     expect(edited.newCount).toBe(12); // 3 context + 9 HunkGroup additions in new file
   });
+
+  describe('line edits', () => {
+    const diff = parseDiff(`diff --git a/app.js b/app.js
+--- a/app.js
++++ b/app.js
+@@ -1,3 +1,3 @@
+ const a = 1;
+-log('a');
++log('a', debugInfo);
+ const b = 2;
+\\ No newline at end of file
+`);
+    const hunk = diff.getAllHunks()[0];
+
+    it('should stage an added line with different content', () => {
+      const edited = editHunk(hunk, { editLines: [{ lineIndex: 2, newContent: "log('a', {});" }] });
+      expect(edited.lines[2]).toEqual({ type: 'add', content: "log('a', {});" });
+      expect(edited.header).toBe('@@ -1,3 +1,3 @@');
+    });
+
+    it('should turn an edited context line into a removal and an addition', () => {
+      const edited = editHunk(hunk, { removeAdditions: [2], keepRemovals: [1], editLines: [{ lineIndex: 0, newContent: 'const a = 2;' }] });
+      expect(edited.lines.map(l => [l.type, l.content])).toEqual([
+        ['remove', 'const a = 1;'],
+        ['add', 'const a = 2;'],
+        ['context', "log('a');"],
+        ['context', 'const b = 2;'],
+      ]);
+      expect(edited.header).toBe('@@ -1,3 +1,3 @@');
+    });
+
+    it('should replace an edited removal, overriding keepRemovals', () => {
+      const edited = editHunk(hunk, { removeAdditions: [2], keepRemovals: [1], editLines: [{ lineIndex: 1, newContent: "log('b');" }] });
+      expect(edited.lines.slice(1, 3)).toEqual([
+        { type: 'remove', content: "log('a');" },
+        { type: 'add', content: "log('b');" },
+      ]);
+    });
+
+    it('should keep the end-of-file marker on the new side', () => {
+      const edited = editHunk(hunk, { editLines: [{ lineIndex: 3, newContent: 'const b = 3;' }] });
+      expect(edited.lines.slice(3)).toEqual([
+        { type: 'remove', content: 'const b = 2;', noNewlineAtEof: true },
+        { type: 'add', content: 'const b = 3;', noNewlineAtEof: true },
+      ]);
+    });
+
+    it('should reject edits to lines the hunk lacks', () => {
+      expect(() => editHunk(hunk, { editLines: [{ lineIndex: 9, newContent: 'x' }] })).toThrow('app.js:0 has no line 9');
+    });
+  });
 });
 
 describe('generatePatch', () => {
@@ -322,6 +590,353 @@ describe('generatePatch', () => {
     expect(patch).toContain('@@ -1,2 +1,3 @@');
     expect(patch).toContain('@@ -10,2 +11,3 @@');
   });
+
+  describe('new-side line numbers', () => {
+    const diff = parseDiff(`diff --git a/test.txt b/test.txt
+--- a/test.txt
++++ b/test.txt
+@@ -1,2 +1,4 @@
+ line 1
++added 1
++added 2
+ line 2
+@@ -10,2 +12,2 @@ section
+-line 10
++changed 10
+ line 11
+@@ -20,0 +23,1 @@
++added 3
+`);
+    const [first, second, third] = diff.getAllHunks();
+
+    it('should rebase hunks on the hunks actually included', () => {
+      const patch = generatePatch([second, third]);
+      expect(patch).toContain('@@ -10,2 +10,2 @@ section\n');
+      expect(patch).toContain('@@ -20,0 +21,1 @@\n');
+    });
+
+    it('should follow edits that change a hunk\'s net line count', () => {
+      const edited = editHunk(first, { removeAdditions: [1] });
+      expect(generatePatch([edited, second])).toContain('@@ -10,2 +11,2 @@ section\n');
+    });
+
+    it('should keep headers that are already right', () => {
+      expect(generatePatch(diff.getAllHunks())).toBe(generatePatch(diff.getAllHunks(), { verbatim: true }));
+    });
+
+    it('should emit headers as given when verbatim', () => {
+      expect(generatePatch([third], { verbatim: true })).toContain('@@ -20,0 +23,1 @@\n');
+    });
+  });
+});
+
+describe('no newline at end of file', () => {
+  const eofDiff = `diff --git a/file.txt b/file.txt
+--- a/file.txt
++++ b/file.txt
+@@ -1,2 +1,3 @@
+ line 1
+-line 2
+\\ No newline at end of file
++line 2
++line 3
+\\ No newline at end of file
+`;
+
+  it('should round-trip markers through generatePatch', () => {
+    const diff = parseDiff(eofDiff);
+    expect(generatePatch(diff.getAllHunks())).toBe(eofDiff);
+  });
+
+  it('should move the new-side marker to the last kept addition', () => {
+    const hunk = parseDiff(eofDiff).getAllHunks()[0];
+    const edited = editHunk(hunk, { removeAdditions: [3] });
+
+    expect(edited.lines).toEqual([
+      { type: 'context', content: 'line 1' },
+      { type: 'remove', content: 'line 2', noNewlineAtEof: true },
+      { type: 'add', content: 'line 2', noNewlineAtEof: true },
+    ]);
+  });
+
+  it('should keep the old-side marker when all additions are dropped', () => {
+    const hunk = parseDiff(eofDiff).getAllHunks()[0];
+    const edited = editHunk(hunk, { removeAdditions: [2, 3] });
+
+    expect(edited.lines).toEqual([
+      { type: 'context', content: 'line 1' },
+      { type: 'remove', content: 'line 2', noNewlineAtEof: true },
+    ]);
+  });
+
+  it('should turn a kept final removal back into a remove/add pair when additions follow it', () => {
+    const hunk = parseDiff(`diff --git a/file.txt b/file.txt
+--- a/file.txt
++++ b/file.txt
+@@ -1,2 +1,2 @@
+ line 1
+-line 2
+\\ No newline at end of file
++line 2 changed
+\\ No newline at end of file
+`).getAllHunks()[0];
+    const edited = editHunk(hunk, { keepRemovals: [1] });
+
+    expect(edited.lines).toEqual([
+      { type: 'context', content: 'line 1' },
+      { type: 'remove', content: 'line 2', noNewlineAtEof: true },
+      { type: 'add', content: 'line 2' },
+      { type: 'add', content: 'line 2 changed', noNewlineAtEof: true },
+    ]);
+    expect(edited.header).toBe('@@ -1,2 +1,3 @@');
+  });
+
+  it('should keep the marker on a kept final removal with nothing after it', () => {
+    const hunk = parseDiff(eofDiff).getAllHunks()[0];
+    const edited = editHunk(hunk, { keepRemovals: [1], removeAdditions: [2, 3] });
+
+    expect(edited.lines[1]).toEqual({ type: 'context', content: 'line 2', noNewlineAtEof: true });
+    expect(generatePatch([edited])).toContain(' line 2\n\\ No newline at end of file\n');
+  });
+
+  it('should preserve markers through splitHunk', () => {
+    const hunk = parseDiff(`diff --git a/file.txt b/file.txt
+--- a/file.txt
++++ b/file.txt
+@@ -1,4 +1,5 @@
++first
+ line 1
+ line 2
+ line 3
+-line 4
+\\ No newline at end of file
++line 4
+\\ No newline at end of file
+`).getAllHunks()[0];
+
+    const parts = splitHunk(hunk);
+    const last = parts[parts.length - 1];
+    expect(last.lines.filter(l => l.noNewlineAtEof)).toHaveLength(2);
+  });
+});
+
+describe('generatePatch with file metadata', () => {
+  it('should re-emit a binary patch with its full index line', () => {
+    const diff = parseDiff(`diff --git a/new.bin b/new.bin
+new file mode 100644
+index 0000000000000000000000000000000000000000..41e3e497080ccf1095445034643223fe93286302
+GIT binary patch
+literal 6
+NcmeAS@N;Ki000Kr0dD{R
+
+literal 0
+HcmV?d00001
+
+`);
+
+    expect(generatePatch(diff.getAllHunks())).toBe(`diff --git a/new.bin b/new.bin
+new file mode 100644
+index 0000000000000000000000000000000000000000..41e3e497080ccf1095445034643223fe93286302
+GIT binary patch
+literal 6
+NcmeAS@N;Ki000Kr0dD{R
+
+literal 0
+HcmV?d00001
+
+`);
+  });
+
+  describe('mode changes', () => {
+    const diff = parseDiff(`diff --git a/t.sh b/t.sh
+old mode 100644
+new mode 100755
+index 587be6b..6c82bf0
+--- a/t.sh
++++ b/t.sh
+@@ -1 +1,2 @@
+ x
++echo 2
+`);
+
+    it('should emit a pure mode change for the mode unit alone', () => {
+      expect(generatePatch([diff.getHunk('t.sh:mode')!])).toBe(`diff --git a/t.sh b/t.sh
+old mode 100644
+new mode 100755
+`);
+    });
+
+    it('should leave the mode alone when only content hunks are selected', () => {
+      const patch = generatePatch([diff.getHunk('t.sh:0')!]);
+      expect(patch).not.toContain('mode');
+      expect(patch).toContain('@@ -1 +1,2 @@');
+    });
+
+    it('should combine mode and content when both are selected', () => {
+      const patch = generatePatch(diff.getAllHunks());
+      expect(patch).toBe(`diff --git a/t.sh b/t.sh
+old mode 100644
+new mode 100755
+--- a/t.sh
++++ b/t.sh
+@@ -1 +1,2 @@
+ x
++echo 2
+`);
+    });
+
+    it('should keep the mode of new files', () => {
+      const newFile = parseDiff(`diff --git a/run.sh b/run.sh
+new file mode 100755
+index 0000000..6c82bf0
+--- /dev/null
++++ b/run.sh
+@@ -0,0 +1 @@
++echo 2
+`);
+      expect(generatePatch(newFile.getAllHunks())).toContain('new file mode 100755\n');
+    });
+  });
+
+  describe('submodules', () => {
+    const diff = parseDiff(`diff --git a/lib b/lib
+index e96a4fe..a9132d2 160000
+--- a/lib
++++ b/lib
+@@ -1 +1 @@
+-Subproject commit e96a4fea5b4b5a03215d2c35b8d168e42b800a9d
++Subproject commit a9132d22e5e8d0a0bf5becf9b2d6c88717887e57
+`);
+
+    it('should emit the pointer change as a hunk', () => {
+      expect(generatePatch(diff.getAllHunks())).toBe(`diff --git a/lib b/lib
+--- a/lib
++++ b/lib
+@@ -1 +1 @@
+-Subproject commit e96a4fea5b4b5a03215d2c35b8d168e42b800a9d
++Subproject commit a9132d22e5e8d0a0bf5becf9b2d6c88717887e57
+`);
+    });
+
+    it('should not split or cut down a submodule unit', () => {
+      const hunk = diff.getHunk('lib:0')!;
+      expect(isSplittable(hunk)).toBe(false);
+      expect(selectHunksWithLines(diff, ['lib:0:1'])).toEqual([hunk]);
+    });
+  });
+
+  describe('renames', () => {
+    const diff = parseDiff(`diff --git a/a.txt b/b.txt
+similarity index 90%
+rename from a.txt
+rename to b.txt
+index 0ff3bbb..fb3ced1 100644
+--- a/a.txt
++++ b/b.txt
+@@ -2,3 +2,3 @@
+ 4
+-5
++five
+ 6
+`);
+
+    it('should emit a pure rename for the rename unit alone', () => {
+      expect(generatePatch([diff.getHunk('b.txt:rename')!])).toBe(`diff --git a/a.txt b/b.txt
+similarity index 90%
+rename from a.txt
+rename to b.txt
+`);
+    });
+
+    it('should carry the rename with content hunks staged on their own', () => {
+      const patch = generatePatch([diff.getHunk('b.txt:0')!]);
+      expect(patch).toContain('diff --git a/a.txt b/b.txt\n');
+      expect(patch).toContain('rename from a.txt\nrename to b.txt\n--- a/a.txt\n+++ b/b.txt\n');
+    });
+
+    it('should target the new path once the rename is applied', () => {
+      const hunk = withRenameApplied(diff.getHunk('b.txt:0')!);
+
+      expect(hunk.oldFile).toBeUndefined();
+      expect(generatePatch([hunk])).toBe(`diff --git a/b.txt b/b.txt
+--- a/b.txt
++++ b/b.txt
+@@ -2,3 +2,3 @@
+ 4
+-5
++five
+ 6
+`);
+    });
+
+    it('should emit copy headers for copied files', () => {
+      const copy = parseDiff(`diff --git a/c.txt b/d.txt
+similarity index 95%
+copy from c.txt
+copy to d.txt
+--- a/c.txt
++++ b/d.txt
+@@ -29,1 +29,2 @@
+ 130
++extra
+`);
+      expect(generatePatch(copy.getAllHunks())).toContain('copy from c.txt\ncopy to d.txt\n--- a/c.txt\n+++ b/d.txt\n');
+    });
+  });
+
+  it('should quote paths the way git does', () => {
+    const diff = `diff --git "a/caf\\303\\251.txt" "b/caf\\303\\251.txt"
+--- "a/caf\\303\\251.txt"
++++ "b/caf\\303\\251.txt"
+@@ -1 +1,2 @@
+ a
++b
+diff --git a/my file.txt b/new b/n a.txt
+similarity index 50%
+rename from my file.txt
+rename to new b/n a.txt
+--- a/my file.txt\t
++++ b/new b/n a.txt\t
+@@ -1 +1,2 @@
+ a
++b
+`;
+    expect(generatePatch(parseDiff(diff).getAllHunks())).toBe(diff);
+  });
+
+  it('should emit /dev/null headers for new files', () => {
+    const diff = parseDiff(`diff --git a/new.txt b/new.txt
+new file mode 100644
+index 0000000..abc123
+--- /dev/null
++++ b/new.txt
+@@ -0,0 +1,2 @@
++line 1
++line 2
+`);
+
+    const patch = generatePatch(diff.getAllHunks());
+    expect(patch).toContain('new file mode 100644\n--- /dev/null\n+++ b/new.txt\n');
+  });
+
+  it('should only emit a deletion when every line is still removed', () => {
+    const diff = parseDiff(`diff --git a/old.txt b/old.txt
+deleted file mode 100644
+index abc123..0000000
+--- a/old.txt
++++ /dev/null
+@@ -1,2 +0,0 @@
+-line 1
+-line 2
+`);
+    const hunk = diff.getAllHunks()[0];
+
+    expect(generatePatch([hunk])).toContain('deleted file mode 100644\n--- a/old.txt\n+++ /dev/null\n');
+
+    const partial = generatePatch([editHunk(hunk, { keepRemovals: [1] })]);
+    expect(partial).not.toContain('deleted file mode');
+    expect(partial).toContain('--- a/old.txt\n+++ b/old.txt\n');
+  });
 });
 
 describe('recalculateHeader', () => {
@@ -425,3 +1040,100 @@ diff --git a/file2.txt b/file2.txt
     expect(result[0].newCount).toBe(3);
   });
 });
+
+describe('subtractSelections', () => {
+  const diffText = `diff --git a/b.txt b/b.txt
+--- a/b.txt
++++ b/b.txt
+@@ -1,4 +1,5 @@
+ 1
+-2
++two
++2b
+ 3
+ 4
+@@ -7,12 +8,17 @@
+ 7
+ 8
+ 9
+-10
++ten
+ 11
+ 12
++a1
++a2
++a3
++a4
++a5
+ 13
+ 14
+-15
++fifteen
+ 16
+ 17
+ 18
+`;
+
+  it('should drop staged hunks and move the old side of later ones', () => {
+    const { diff, origins } = subtractSelections(parseDiff(diffText), ['b.txt:0']);
+    const hunks = diff.getAllHunks();
+    expect(hunks).toHaveLength(1);
+    expect(hunks[0].id).toBe('b.txt:0');
+    expect(hunks[0].header).toBe('@@ -8,12 +8,17 @@');
+    expect(hunks[0].stableId).toBe(parseDiff(diffText).getHunk('b.txt:1')!.stableId);
+    expect(origins.get('b.txt:0')![3]).toEqual({ hunkId: 'b.txt:1', lineIndex: 3 });
+  });
+
+  it('should turn staged additions into context and leave the rest', () => {
+    const { diff, origins } = subtractSelections(parseDiff(diffText), ['b.txt:0:3']);
+    const [first] = diff.getAllHunks();
+    expect(first.header).toBe('@@ -1,4 +1,5 @@');
+    expect(first.lines.map(l => `${l.type[0]}${l.content}`)).toEqual(['c1', 'atwo', 'c2b', 'c3', 'c4']);
+    // The removal of "2" was staged with the selected addition
+    expect(origins.get('b.txt:0')!.map(o => o.lineIndex)).toEqual([0, 2, 3, 4, 5]);
+  });
+
+  it('should split a hunk as git would once the changes between its parts are staged', () => {
+    // Staging a1-a5 stages the hunk's removals with them, leaving "ten" and "fifteen" as additions
+    const ids = [7, 8, 9, 10, 11].map(i => `b.txt:1:${i}`);
+    const { diff, origins } = subtractSelections(parseDiff(diffText), ids);
+    const hunks = diff.getAllHunks();
+
+    expect(hunks.map(h => h.header)).toEqual(['@@ -1,4 +1,5 @@', '@@ -7,6 +8,7 @@', '@@ -16,6 +18,7 @@']);
+    expect(hunks[2].lines.map(l => `${l.type[0]}${l.content}`)).toEqual(['ca5', 'c13', 'c14', 'afifteen', 'c16', 'c17', 'c18']);
+    expect(origins.get('b.txt:2')!.map(o => `${o.hunkId}:${o.lineIndex}`)).toEqual([
+      'b.txt:1:11', 'b.txt:1:12', 'b.txt:1:13', 'b.txt:1:15', 'b.txt:1:16', 'b.txt:1:17', 'b.txt:1:18',
+    ]);
+  });
+
+  it('should carry a rename with the first staged hunk of the file', () => {
+    const renamed = parseDiff(`diff --git a/old.txt b/new.txt
+similarity index 80%
+rename from old.txt
+rename to new.txt
+--- a/old.txt
++++ b/new.txt
+@@ -1,2 +1,2 @@
+-x
++y
+ z
+@@ -10,2 +10,2 @@
+ p
+-q
++r
+`);
+    const { diff } = subtractSelections(renamed, ['new.txt:0']);
+    const [file] = diff.files;
+    expect(file.oldPath).toBe('new.txt');
+    expect(file.isRenamed).toBe(false);
+    expect(diff.getAllHunks().map(h => h.id)).toEqual(['new.txt:0']);
+    expect(diff.getAllHunks()[0].oldFile).toBeUndefined();
+    expect(generatePatch(diff.getAllHunks())).toContain('--- a/new.txt');
+  });
+
+  it('should leave untouched files as they are', () => {
+    const original = parseDiff(diffText);
+    const { diff } = subtractSelections(original, []);
+    expect(diff.files[0]).toBe(original.files[0]);
+  });
+});
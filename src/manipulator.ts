@@ -1,10 +1,19 @@
-import { DiffLine, FileDiff, Hunk, HunkGroup, ParsedDiff } from './types.js';
+import { ContentProvider, DiffLine, FileDiff, FileHeader, Hunk, HunkGroup, ParsedDiff } from './types.js';
+import { NO_NEWLINE_MARKER } from './parser.js';
+import { quotePath } from './paths.js';
+import { contextLineAt, FileLines, recontextFile, splitFileLines } from './context.js';
+import { createParsedDiff } from './parsed-diff.js';
 
 /**
  * Check if a hunk can be split into smaller hunks
  * A hunk is splittable if it has a context line gap between change groups
  */
 export function isSplittable(hunk: Hunk, minContextGap: number = 1): boolean {
+  // Combined diff hunks are for reviewing a merge, not for staging
+  if (hunk.parentRanges) return false;
+  // Whole-file units (including submodule pointers, which do have lines) are staged whole
+  if (hunk.kind) return false;
+
   let inChangeGroup = false;
   let contextCount = 0;
   let foundGap = false;
@@ -50,13 +59,11 @@ export function splitHunk(hunk: Hunk, minContextGap: number = 1): Hunk[] {
       contextBuffer.push(line);
 
       if (inChangeGroup && contextBuffer.length >= minContextGap) {
-        // End the current group with some trailing context
-        const trailingContext = contextBuffer.slice(0, Math.min(minContextGap, contextBuffer.length));
-        currentGroup.push(...trailingContext);
+        // End the current group with its trailing context; what follows leads the next group
+        currentGroup.push(...contextBuffer);
         groups.push(currentGroup);
-
-        // Start a new group with leading context
-        currentGroup = [...contextBuffer.slice(Math.min(minContextGap, contextBuffer.length))];
+        currentGroup = [];
+        contextBuffer = [];
         inChangeGroup = false;
       }
     } else {
@@ -78,9 +85,11 @@ export function splitHunk(hunk: Hunk, minContextGap: number = 1): Hunk[] {
   }
 
   // Don't forget trailing context for the last group
-  if (currentGroup.length > 0) {
+  if (inChangeGroup) {
     currentGroup.push(...contextBuffer);
     groups.push(currentGroup);
+  } else if (groups.length > 0) {
+    groups[groups.length - 1].push(...contextBuffer);
   }
 
   // Convert groups back to hunks with proper line numbers
@@ -109,18 +118,17 @@ export function splitHunk(hunk: Hunk, minContextGap: number = 1): Hunk[] {
       }
     }
 
-    // Create the sub-hunk
+    // Create the sub-hunk, keeping the hunk's rename and file header
+    const { stableId: _stableId, ...rest } = hunk;
     const subHunk: Hunk = {
+      ...rest,
       id: `${hunk.file}:${hunk.index}.${groupIndex}`,
-      file: hunk.file,
-      index: hunk.index,
       header: `@@ -${subHunkOldStart},${subOldCount} +${subHunkNewStart},${subNewCount} @@${hunk.context ? ' ' + hunk.context : ''}`,
       oldStart: subHunkOldStart,
       oldCount: subOldCount,
       newStart: subHunkNewStart,
       newCount: subNewCount,
       lines: group,
-      context: hunk.context,
     };
 
     result.push(subHunk);
@@ -137,23 +145,427 @@ export function splitHunk(hunk: Hunk, minContextGap: number = 1): Hunk[] {
 }
 
 /**
- * Select specific hunks by ID
+ * Split a hunk into two before line `index`, wherever its changes are
+ * See splitHunkAtIndices.
+ */
+export function splitHunkAt(hunk: Hunk, index: number): Hunk[] {
+  return splitHunkAtIndices(hunk, [index]);
+}
+
+/**
+ * Split a hunk before each of the given line indices, even inside a run of changes
+ *
+ * Unlike splitHunk, the pieces are meant to be staged one after another:
+ * each one shows the changes of the pieces before it as already made
+ * (their additions as context, their removals gone) and those after it as
+ * not made yet, so it has real context on both sides and its header fits
+ * the file as the pieces before it leave it. Every piece must have a change.
+ */
+export function splitHunkAtIndices(hunk: Hunk, indices: number[]): Hunk[] {
+  if (hunk.kind || hunk.parentRanges) {
+    throw new Error(`Hunk ${hunk.id} can't be split: it is ${hunk.kind ? `a ${hunk.kind} unit` : 'from a combined diff'}`);
+  }
+
+  const cuts = [...new Set(indices)].sort((a, b) => a - b);
+  for (const cut of cuts) {
+    if (!Number.isInteger(cut) || cut < 1 || cut >= hunk.lines.length) {
+      throw new Error(`Hunk ${hunk.id} can't be split before line ${cut}: it has lines 0-${hunk.lines.length - 1}`);
+    }
+  }
+
+  const bounds = [0, ...cuts, hunk.lines.length];
+  const contextLines = Math.max(leadingContext(hunk.lines), trailingContext(hunk.lines));
+
+  return bounds.slice(0, -1).map((from, piece) => {
+    const to = bounds[piece + 1];
+    if (hunk.lines.slice(from, to).every(l => l.type === 'context')) {
+      throw new Error(`Hunk ${hunk.id} can't be split into lines ${from}-${to - 1}: they have no changes`);
+    }
+
+    const lines: DiffLine[] = [];
+    hunk.lines.forEach((line, i) => {
+      if (i >= from && i < to) {
+        lines.push(line);
+      } else if (i < from ? line.type === 'add' : line.type === 'remove') {
+        // Made by an earlier piece, or not made until a later one
+        lines.push({ ...line, type: 'context' });
+      } else if (line.type === 'context') {
+        lines.push(line);
+      }
+    });
+
+    return pieceOfHunk(hunk, piece, lines, contextLines);
+  });
+}
+
+/**
+ * Make piece number `piece` of a hunk from its lines, which span the whole hunk
+ *
+ * Context beyond `contextLines` on either side of the piece's changes is
+ * dropped, but at least one line is kept after them: git only applies a
+ * hunk without trailing context at the end of the file.
+ */
+function pieceOfHunk(hunk: Hunk, piece: number, lines: DiffLine[], contextLines: number): Hunk {
+  const dropLeading = Math.max(leadingContext(lines) - contextLines, 0);
+  const dropTrailing = Math.max(trailingContext(lines) - Math.max(contextLines, 1), 0);
+  const kept = lines.slice(dropLeading, lines.length - dropTrailing);
+  const oldCount = kept.filter(l => l.type !== 'add').length;
+  const newCount = kept.filter(l => l.type !== 'remove').length;
+  const oldStart = oldRangeStart(hunk) + dropLeading;
+  const newStart = newRangeStart(hunk) + dropLeading;
+
+  const { stableId: _stableId, ...rest } = hunk;
+  const subHunk: Hunk = {
+    ...rest,
+    id: `${hunk.file}:${hunk.index}.${piece}`,
+    oldStart: oldCount === 0 ? oldStart - 1 : oldStart,
+    oldCount,
+    newStart: newCount === 0 ? newStart - 1 : newStart,
+    newCount,
+    lines: kept,
+  };
+  subHunk.header = recalculateHeader(subHunk);
+  return subHunk;
+}
+
+/**
+ * A change to one line: a removed line and the added line that replaces it, or a line only removed or only added
+ */
+export interface LineChange {
+  /** Index of the removed line in the hunk */
+  removeIndex?: number;
+  /** Index of the added line in the hunk */
+  addIndex?: number;
+  /** Whether the change is only to whitespace: the lines differ in nothing else, or the lone line is blank */
+  whitespaceOnly: boolean;
+}
+
+/**
+ * Pair up a hunk's removed and added lines and tell whitespace-only changes from substantive ones
+ *
+ * Within each run of changes, a removed line is paired with the next added
+ * line that equals it once all whitespace is ignored (as `git diff -w`
+ * compares them). Adding or dropping the newline at the end of the file
+ * is not a whitespace change here: it can't be staged apart from lines
+ * added after it. The lines in between are paired in order and are
+ * substantive, except lone blank lines. Changes come in line order.
+ */
+export function classifyLineChanges(hunk: Hunk): LineChange[] {
+  if (hunk.kind || hunk.parentRanges) return [];
+
+  const changes: LineChange[] = [];
+  for (const run of changeRuns(hunk)) {
+    for (const segment of run.segments) {
+      const paired = Math.min(segment.removals.length, segment.additions.length);
+      for (let k = 0; k < Math.max(segment.removals.length, segment.additions.length); k++) {
+        const removeIndex = segment.removals[k];
+        const addIndex = segment.additions[k];
+        const lone = k >= paired ? hunk.lines[removeIndex ?? addIndex] : undefined;
+        changes.push({
+          ...(removeIndex !== undefined ? { removeIndex } : {}),
+          ...(addIndex !== undefined ? { addIndex } : {}),
+          whitespaceOnly: lone !== undefined && whitespaceKey(lone) === '',
+        });
+      }
+      if (segment.pair) {
+        changes.push({ removeIndex: segment.pair[0], addIndex: segment.pair[1], whitespaceOnly: true });
+      }
+    }
+  }
+
+  const firstIndex = (change: LineChange) => Math.min(change.removeIndex ?? Infinity, change.addIndex ?? Infinity);
+  return changes.sort((a, b) => firstIndex(a) - firstIndex(b));
+}
+
+/**
+ * Whether every change of a hunk is to whitespace only (false for hunks without changes)
+ */
+export function isWhitespaceOnly(hunk: Hunk): boolean {
+  const changes = classifyLineChanges(hunk);
+  return changes.length > 0 && changes.every(c => c.whitespaceOnly);
+}
+
+/**
+ * Split a hunk into its whitespace-only changes and its other changes
+ *
+ * The two pieces come in the order they are to be staged, whitespace
+ * first unless `first` is 'semantic'; like splitHunkAtIndices, the second
+ * piece shows the first's changes as already made. Either order gives the
+ * same result once both are staged, so a reformat can be committed
+ * before or after the change it was mixed with. The hunk must have
+ * changes of both kinds (see classifyLineChanges).
+ */
+export function splitWhitespaceChanges(hunk: Hunk, first: 'whitespace' | 'semantic' = 'whitespace'): Hunk[] {
+  if (hunk.kind || hunk.parentRanges) {
+    throw new Error(`Hunk ${hunk.id} can't be split: it is ${hunk.kind ? `a ${hunk.kind} unit` : 'from a combined diff'}`);
+  }
+
+  const whitespace = new Set<number>();
+  const changes = classifyLineChanges(hunk);
+  for (const change of changes) {
+    if (!change.whitespaceOnly) continue;
+    if (change.removeIndex !== undefined) whitespace.add(change.removeIndex);
+    if (change.addIndex !== undefined) whitespace.add(change.addIndex);
+  }
+  if (changes.every(c => c.whitespaceOnly) || changes.every(c => !c.whitespaceOnly)) {
+    throw new Error(`Hunk ${hunk.id} can't be split by whitespace: its changes are all ${changes[0]?.whitespaceOnly ? 'whitespace-only' : 'substantive'}`);
+  }
+
+  const contextLines = Math.max(leadingContext(hunk.lines), trailingContext(hunk.lines));
+  const order = first === 'whitespace' ? [true, false] : [false, true];
+
+  return order.map((takesWhitespace, piece) => {
+    const ownLine = (i: number) => whitespace.has(i) === takesWhitespace;
+    const lineAt = (i: number): DiffLine[] => {
+      const line = hunk.lines[i];
+      if (ownLine(i)) return [line];
+      // Made by the first piece, or not made until the second
+      if (piece === 1) return line.type === 'add' ? [{ ...line, type: 'context' }] : [];
+      return line.type === 'remove' ? [{ ...line, type: 'context' }] : [];
+    };
+
+    const lines: DiffLine[] = [];
+    let next = 0;
+    for (const run of changeRuns(hunk)) {
+      for (; next < run.start; next++) lines.push(hunk.lines[next]);
+      // Removals before additions, with each whitespace pair kept together so both sides read in file order
+      for (const segment of run.segments) {
+        lines.push(...segment.removals.flatMap(lineAt), ...segment.additions.flatMap(lineAt));
+        if (segment.pair) lines.push(...segment.pair.flatMap(lineAt));
+      }
+      next = run.end;
+    }
+    for (; next < hunk.lines.length; next++) lines.push(hunk.lines[next]);
+
+    return pieceOfHunk(hunk, piece, lines, contextLines);
+  });
+}
+
+/**
+ * A run of changes in a hunk, cut after each whitespace-only pair
+ */
+interface ChangeRun {
+  /** Index of the run's first line */
+  start: number;
+  /** Index after the run's last line */
+  end: number;
+  segments: RunSegment[];
+}
+
+/**
+ * The lines of a run up to and including a whitespace-only pair
+ */
+interface RunSegment {
+  /** Removed lines before the pair that aren't part of one */
+  removals: number[];
+  /** Added lines before the pair that aren't part of one */
+  additions: number[];
+  /** A removed line and the added line that differs from it only in whitespace (absent for the run's last segment) */
+  pair?: [number, number];
+}
+
+/**
+ * Find the runs of changes of a hunk, and the whitespace-only pairs in them
+ * Pairs are matched in order, so they read the same way on both sides.
+ */
+function changeRuns(hunk: Hunk): ChangeRun[] {
+  const runs: ChangeRun[] = [];
+
+  let start = 0;
+  while (start < hunk.lines.length) {
+    if (hunk.lines[start].type === 'context') {
+      start++;
+      continue;
+    }
+    let end = start;
+    while (end < hunk.lines.length && hunk.lines[end].type !== 'context') end++;
+
+    const removals: number[] = [];
+    const additions: number[] = [];
+    for (let i = start; i < end; i++) {
+      (hunk.lines[i].type === 'remove' ? removals : additions).push(i);
+    }
+
+    // Positions of the additions by their content without whitespace
+    const additionsByKey = new Map<string, number[]>();
+    additions.forEach((i, position) => {
+      const key = whitespaceKey(hunk.lines[i]);
+      additionsByKey.set(key, [...(additionsByKey.get(key) ?? []), position]);
+    });
+
+    const segments: RunSegment[] = [];
+    let removalFrom = 0;
+    let additionFrom = 0;
+    removals.forEach((i, position) => {
+      const key = whitespaceKey(hunk.lines[i]);
+      if (key === '') return;
+      const match = additionsByKey.get(key)?.find(p => p >= additionFrom);
+      if (match === undefined) return;
+      segments.push({
+        removals: removals.slice(removalFrom, position),
+        additions: additions.slice(additionFrom, match),
+        pair: [i, additions[match]],
+      });
+      removalFrom = position + 1;
+      additionFrom = match + 1;
+    });
+    segments.push({ removals: removals.slice(removalFrom), additions: additions.slice(additionFrom) });
+
+    runs.push({ start, end, segments });
+    start = end;
+  }
+
+  return runs;
+}
+
+/**
+ * A line's content with all whitespace taken out, for comparing lines as `git diff -w` does
+ * Lines without a newline at the end of the file only match each other.
+ */
+function whitespaceKey(line: DiffLine): string {
+  return line.content.replace(/\s+/g, '') + (line.noNewlineAtEof ? '\0' : '');
+}
+
+/**
+ * Number of context lines before the first change
+ */
+function leadingContext(lines: DiffLine[]): number {
+  const first = lines.findIndex(l => l.type !== 'context');
+  return first === -1 ? lines.length : first;
+}
+
+/**
+ * Number of context lines after the last change
+ */
+function trailingContext(lines: DiffLine[]): number {
+  return leadingContext([...lines].reverse());
+}
+
+/**
+ * Join hunks of one file into a single hunk (the inverse of splitHunk)
+ *
+ * Hunks may be given in any order. Where they overlap, the overlap must be
+ * context in the later hunk; where they are apart, the unchanged lines in
+ * between are read from `provider`. The result's ID joins the inputs'
+ * positions, e.g. "app.js:2.0+2.1".
+ */
+export function joinHunks(hunks: Hunk[], provider?: ContentProvider): Hunk {
+  if (hunks.length === 0) {
+    throw new Error('No hunks to join');
+  }
+  const first = hunks[0];
+  for (const hunk of hunks) {
+    if (hunk.file !== first.file || hunk.oldFile !== first.oldFile) {
+      throw new Error(`Can't join hunks of different files: ${first.id}, ${hunk.id}`);
+    }
+    if (hunk.kind || hunk.parentRanges) {
+      throw new Error(`Hunk ${hunk.id} can't be joined: ${hunk.kind ? `it is a ${hunk.kind} unit` : 'it is from a combined diff'}`);
+    }
+  }
+  if (hunks.length === 1) return first;
+
+  const sorted = [...hunks].sort((a, b) => a.oldStart - b.oldStart || a.newStart - b.newStart);
+  const lines: DiffLine[] = [...sorted[0].lines];
+  // The first old and new lines after what has been joined so far
+  let oldEnd = oldRangeStart(sorted[0]) + sorted[0].oldCount;
+  let newEnd = newRangeStart(sorted[0]) + sorted[0].newCount;
+  let oldContent: FileLines | null | undefined;
+  let newContent: FileLines | null | undefined;
+
+  for (const hunk of sorted.slice(1)) {
+    const start = oldRangeStart(hunk);
+
+    if (start > oldEnd) {
+      // Fill the gap with unchanged lines, from the old content or else the new
+      if (oldContent === undefined) {
+        oldContent = provider ? splitFileLines(provider.readFile(hunk.oldFile ?? hunk.file, 'old')) : null;
+      }
+      if (!oldContent && newContent === undefined) {
+        newContent = provider ? splitFileLines(provider.readFile(hunk.file, 'new')) : null;
+      }
+      for (let i = 0; i < start - oldEnd; i++) {
+        const line = oldContent
+          ? contextLineAt(oldContent, oldEnd + i)
+          : newContent ? contextLineAt(newContent, newEnd + i) : undefined;
+        if (!line) {
+          throw new Error(`Can't join hunks ${sorted[0].id} and ${hunk.id}: lines ${oldEnd}-${start - 1} between them are unknown`);
+        }
+        lines.push(line);
+      }
+    }
+
+    // Skip the part of this hunk that is already covered
+    let oldLine = start;
+    let skip = 0;
+    while (skip < hunk.lines.length && oldLine < oldEnd) {
+      const line = hunk.lines[skip];
+      if (line.type !== 'context') {
+        throw new Error(`Can't join hunks ${sorted[0].id} and ${hunk.id}: both change line ${oldLine}`);
+      }
+      oldLine++;
+      skip++;
+    }
+    lines.push(...hunk.lines.slice(skip));
+
+    oldEnd = Math.max(oldEnd, start + hunk.oldCount);
+    newEnd = Math.max(newEnd, newRangeStart(hunk) + hunk.newCount);
+  }
+
+  const positions = sorted.map(h => h.id.startsWith(`${h.file}:`) ? h.id.slice(h.file.length + 1) : h.id);
+  const oldCount = lines.filter(l => l.type !== 'add').length;
+  const newCount = lines.filter(l => l.type !== 'remove').length;
+  const joined: Hunk = {
+    id: `${first.file}:${positions.join('+')}`,
+    file: first.file,
+    ...(first.oldFile ? { oldFile: first.oldFile } : {}),
+    index: sorted[0].index,
+    header: '',
+    // An empty side is numbered by the line before it
+    oldStart: oldCount === 0 ? sorted[0].oldStart : oldRangeStart(sorted[0]),
+    oldCount,
+    newStart: newCount === 0 ? sorted[0].newStart : newRangeStart(sorted[0]),
+    newCount,
+    lines,
+    context: sorted[0].context,
+    ...(first.fileHeader ? { fileHeader: first.fileHeader } : {}),
+  };
+  joined.header = recalculateHeader(joined);
+  return joined;
+}
+
+/**
+ * First old line a hunk covers ("@@ -5,0 ..." inserts after line 5, so covers from 6)
+ */
+function oldRangeStart(hunk: Hunk): number {
+  return hunk.oldCount === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+}
+
+/**
+ * First new line a hunk covers (see oldRangeStart)
+ */
+function newRangeStart(hunk: Hunk): number {
+  return hunk.newCount === 0 ? hunk.newStart + 1 : hunk.newStart;
+}
+
+/**
+ * Select specific hunks by ID (positional or stable)
  */
 export function selectHunks(diff: ParsedDiff, ids: string[]): Hunk[] {
   const idSet = new Set(ids);
-  return diff.getAllHunks().filter((h: Hunk) => idSet.has(h.id));
+  return diff.getAllHunks().filter((h: Hunk) => idSet.has(h.id) || (h.stableId !== undefined && idSet.has(h.stableId)));
 }
 
 /**
  * Parse a hunk ID that may include a line index.
  *
  * Formats:
- *   "src/file.ts:0"    → whole hunk (baseId only)
- *   "src/file.ts:0:3"  → line index 3 within hunk 0
+ *   "src/file.ts:0"               → whole hunk (baseId only)
+ *   "src/file.ts:0:3"             → line index 3 within hunk 0
+ *   "src/file.ts@3f2a9c1b0d:3"    → line index 3 within a hunk given by stable ID
  */
-function parseHunkId(id: string): { baseId: string; lineIndex?: number } {
-  // Match trailing :N where the remainder also ends in :N (i.e. three-part ID)
-  const lineMatch = id.match(/^(.+:\d+):(\d+)$/);
+export function parseHunkId(id: string): { baseId: string; lineIndex?: number } {
+  // Match trailing :N where the remainder is itself a hunk ID
+  const lineMatch = id.match(/^(.+(?::\d+|@[0-9a-f]+(?:#\d+)?)):(\d+)$/);
   if (lineMatch) {
     return { baseId: lineMatch[1], lineIndex: parseInt(lineMatch[2], 10) };
   }
@@ -171,6 +583,28 @@ function parseHunkId(id: string): { baseId: string; lineIndex?: number } {
  * addition lines are staged; all other additions are dropped via editHunk.
  */
 export function selectHunksWithLines(diff: ParsedDiff, ids: string[]): Hunk[] {
+  const result: Hunk[] = [];
+
+  for (const [hunk, selected] of resolveSelections(diff, ids)) {
+    if (!selected) {
+      result.push(hunk);
+    } else {
+      const removeAdditions = hunk.lines
+        .map((l, i) => ({ type: l.type, i }))
+        .filter(x => x.type === 'add' && !selected.has(x.i))
+        .map(x => x.i);
+      result.push(editHunk(hunk, { removeAdditions }));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Resolve selection IDs to the hunks they select, in diff order
+ * Maps each hunk to its selected line indices, or to null when it is selected whole.
+ */
+function resolveSelections(diff: ParsedDiff, ids: string[]): Map<Hunk, Set<number> | null> {
   const wholeHunkIds = new Set<string>();
   const linesByHunk = new Map<string, Set<number>>();
 
@@ -185,22 +619,173 @@ export function selectHunksWithLines(diff: ParsedDiff, ids: string[]): Hunk[] {
     }
   }
 
-  const result: Hunk[] = [];
+  const selections = new Map<Hunk, Set<number> | null>();
 
   for (const hunk of diff.getAllHunks()) {
-    if (wholeHunkIds.has(hunk.id)) {
-      result.push(hunk);
-    } else if (linesByHunk.has(hunk.id)) {
-      const selected = linesByHunk.get(hunk.id)!;
-      const removeAdditions = hunk.lines
-        .map((l, i) => ({ type: l.type, i }))
-        .filter(x => x.type === 'add' && !selected.has(x.i))
-        .map(x => x.i);
-      result.push(editHunk(hunk, { removeAdditions }));
+    const ids = hunk.stableId ? [hunk.id, hunk.stableId] : [hunk.id];
+    const selected = ids.map(id => linesByHunk.get(id)).find(Boolean);
+    if (ids.some(id => wholeHunkIds.has(id)) || (selected && hunk.kind)) {
+      // A submodule pointer can't be staged line by line, so any of its lines selects it
+      selections.set(hunk, null);
+    } else if (selected) {
+      selections.set(hunk, selected);
     }
   }
 
-  return result;
+  return selections;
+}
+
+/**
+ * Where a line of a remainder came from
+ */
+export interface LineOrigin {
+  /** Positional ID of the hunk in the original diff */
+  hunkId: string;
+  /** Index of the line in that hunk's lines */
+  lineIndex: number;
+}
+
+/**
+ * What is left of a diff once part of it is staged
+ */
+export interface DiffRemainder {
+  /** The changes still unstaged, with IDs and line numbers as `git diff` would then give them */
+  diff: ParsedDiff;
+  /** The origin of each line of each remaining hunk, by the hunk's ID in `diff` */
+  origins: Map<string, LineOrigin[]>;
+}
+
+/**
+ * Compute the diff that remains after staging a selection, without touching git
+ *
+ * `ids` are as for selectHunksWithLines, and the remainder is what is left
+ * once its hunks are staged: staged removals are gone, staged additions
+ * become context, and old-side line numbers move by what was staged
+ * before them. Hunks are then re-contexted to the diff's own context
+ * width, so they merge and split as git would show them. Staging any hunk
+ * of a renamed or copied file stages the rename too, and staging part of
+ * a new file creates it. Call again on the remainder to plan the next commit.
+ */
+export function subtractSelections(diff: ParsedDiff, ids: string[]): DiffRemainder {
+  const selections = resolveSelections(diff, ids);
+  const contextLines = inferContextLines(diff);
+  const origins = new Map<string, LineOrigin[]>();
+  const files: FileDiff[] = [];
+
+  for (const file of diff.files) {
+    const staged = file.hunks.filter(h => selections.has(h));
+    if (staged.length === 0) {
+      for (const hunk of file.hunks) {
+        origins.set(hunk.id, hunk.lines.map((_, lineIndex) => ({ hunkId: hunk.id, lineIndex })));
+      }
+      files.push(file);
+      continue;
+    }
+
+    const changes = stagedHeaderChanges(file, staged);
+    const template = file.hunks.find(h => h.fileHeader)?.fileHeader;
+    const fileHeader = template ? { ...template, ...changes } : undefined;
+    const renameStaged = changes.oldPath !== undefined;
+
+    const hunks: Hunk[] = [];
+    const lineOrigins = new Map<DiffLine, LineOrigin>();
+    // Net lines the staged parts added to the index above the current hunk
+    let shift = 0;
+
+    for (const hunk of file.hunks) {
+      const selected = selections.get(hunk);
+      const base = renameStaged ? withRenameApplied(hunk) : hunk;
+
+      if (hunk.kind) {
+        // The rename or copy unit goes with the first hunk of the file that is staged
+        if (selected !== undefined || (renameStaged && (hunk.kind === 'rename' || hunk.kind === 'copy'))) continue;
+        hunks.push({ ...base, ...(fileHeader ? { fileHeader } : {}) });
+        hunk.lines.forEach((line, lineIndex) => lineOrigins.set(line, { hunkId: hunk.id, lineIndex }));
+        continue;
+      }
+
+      const lines: DiffLine[] = [];
+      let stagedNet = 0;
+      hunk.lines.forEach((line, lineIndex) => {
+        let remaining = line;
+        if (selected !== undefined && line.type === 'remove') {
+          stagedNet--;
+          return;
+        }
+        if (selected !== undefined && line.type === 'add' && (selected === null || selected.has(lineIndex))) {
+          stagedNet++;
+          remaining = { ...line, type: 'context' };
+        }
+        lines.push(remaining);
+        lineOrigins.set(remaining, { hunkId: hunk.id, lineIndex });
+      });
+
+      const start = oldRangeStart(hunk) + shift;
+      shift += stagedNet;
+      if (lines.every(l => l.type === 'context')) continue;
+
+      const oldCount = lines.filter(l => l.type !== 'add').length;
+      const remaining: Hunk = {
+        ...base,
+        oldStart: oldCount === 0 ? start - 1 : start,
+        oldCount,
+        lines,
+        ...(fileHeader ? { fileHeader } : {}),
+      };
+      remaining.header = recalculateHeader(remaining);
+      hunks.push(remaining);
+    }
+
+    if (hunks.length === 0) continue;
+    // Renumbers the hunks and gives them stable IDs as well
+    const remainder = recontextFile({ ...file, ...changes, hunks }, contextLines);
+    for (const hunk of remainder.hunks) {
+      origins.set(hunk.id, hunk.lines.map(line => lineOrigins.get(line)!));
+    }
+    files.push(remainder);
+  }
+
+  return { diff: createParsedDiff(files), origins };
+}
+
+/**
+ * The context width a diff was made with, as the most context any hunk has on one side of its changes
+ * Falls back to git's default of 3 when no hunk has changes with lines around them.
+ */
+function inferContextLines(diff: ParsedDiff): number {
+  let widest: number | undefined;
+  for (const file of diff.files) {
+    if (file.isNew || file.isDeleted) continue;
+    for (const hunk of file.hunks) {
+      if (hunk.kind || hunk.parentRanges) continue;
+      const firstChange = hunk.lines.findIndex(l => l.type !== 'context');
+      const lastChange = hunk.lines.length - 1 - [...hunk.lines].reverse().findIndex(l => l.type !== 'context');
+      widest = Math.max(widest ?? 0, firstChange, hunk.lines.length - 1 - lastChange);
+    }
+  }
+  return widest ?? 3;
+}
+
+/**
+ * How staging some of a file's hunks changes the file's header in the remainder
+ */
+function stagedHeaderChanges(file: FileDiff, staged: Hunk[]): Partial<FileHeader> {
+  const changes: Partial<FileHeader> = {};
+
+  // The rename or copy goes with any hunk of the file
+  if (staged.some(h => h.oldFile)) {
+    Object.assign(changes, { oldPath: file.newPath, isRenamed: false, isCopied: false, similarity: undefined });
+  }
+  // Staging part of a new file creates it in the index
+  if (file.isNew || staged.some(h => h.kind === 'mode')) {
+    Object.assign(changes, { isNew: false, oldMode: file.newMode });
+  }
+  // The index no longer holds the old blob once content is staged
+  if (staged.some(h => !h.kind || h.kind === 'submodule')) {
+    changes.oldHash = undefined;
+  }
+
+  return changes;
 }
 
 /**
@@ -216,11 +801,22 @@ export function groupHunks(hunks: Hunk[], label: string): HunkGroup {
   };
 }
 
+/**
+ * Options for generatePatch
+ */
+export interface PatchOptions {
+  /** Write each hunk's header exactly as given, without rebasing its new-side start (for debugging) */
+  verbatim?: boolean;
+}
+
 /**
  * Generate a valid patch string from a set of hunks
- * Handles line number adjustments for hunks from the same file
+ *
+ * Each hunk's new-side start is recomputed from the hunks before it in the
+ * patch, so it stays right when only some of a file's hunks are selected
+ * or an edit changed a hunk's net line count.
  */
-export function generatePatch(hunks: Hunk[]): string {
+export function generatePatch(hunks: Hunk[], options: PatchOptions = {}): string {
   if (hunks.length === 0) return '';
 
   // Group hunks by file
@@ -238,16 +834,30 @@ export function generatePatch(hunks: Hunk[]): string {
     const sorted = [...fileHunks].sort((a, b) => a.oldStart - b.oldStart);
 
     // Generate file header
-    sections.push(`diff --git a/${file} b/${file}`);
-    sections.push(`--- a/${file}`);
-    sections.push(`+++ b/${file}`);
+    sections.push(...formatFileHeader(file, sorted));
+
+    // Lines added minus lines removed by the hunks written so far
+    let offset = 0;
 
     // Generate each hunk
     for (const hunk of sorted) {
-      sections.push(hunk.header);
+      if (hunk.kind === 'binary') {
+        sections.push(...formatBinaryPatch(hunk));
+        continue;
+      }
+      if (hunk.kind && hunk.kind !== 'submodule') {
+        // Mode, rename and copy units are fully described by the extended header lines
+        continue;
+      }
+
+      sections.push(options.verbatim || hunk.parentRanges ? hunk.header : rebaseHeader(hunk, offset));
+      offset += hunk.newCount - hunk.oldCount;
       for (const line of hunk.lines) {
         const prefix = line.type === 'context' ? ' ' : line.type === 'add' ? '+' : '-';
         sections.push(`${prefix}${line.content}`);
+        if (line.noNewlineAtEof) {
+          sections.push(NO_NEWLINE_MARKER);
+        }
       }
     }
   }
@@ -255,6 +865,117 @@ export function generatePatch(hunks: Hunk[]): string {
   return sections.join('\n') + '\n';
 }
 
+/**
+ * A hunk's header with its new-side start moved to follow the old side by `offset` lines
+ * Headers that are already right are kept as written.
+ */
+function rebaseHeader(hunk: Hunk, offset: number): string {
+  const newRangeStart = oldRangeStart(hunk) + offset;
+  // An empty side is numbered by the line before it
+  const newStart = hunk.newCount === 0 ? newRangeStart - 1 : newRangeStart;
+  return newStart === hunk.newStart ? hunk.header : recalculateHeader({ ...hunk, newStart });
+}
+
+/**
+ * Re-target a hunk of a renamed or copied file at its new path.
+ *
+ * Use this once the rename/copy unit has been staged: from then on the
+ * file's remaining hunks apply to the new path and must not repeat it.
+ */
+export function withRenameApplied(hunk: Hunk): Hunk {
+  if (!hunk.oldFile) return hunk;
+
+  const { oldFile: _oldFile, ...rest } = hunk;
+  if (!hunk.fileHeader) return rest;
+
+  return {
+    ...rest,
+    fileHeader: {
+      ...hunk.fileHeader,
+      oldPath: hunk.fileHeader.newPath,
+      isRenamed: false,
+      isCopied: false,
+      similarity: undefined,
+    },
+  };
+}
+
+/**
+ * Build the "diff --git" line and extended headers for one file's hunks
+ */
+function formatFileHeader(file: string, hunks: Hunk[]): string[] {
+  const header = hunks.find(h => h.fileHeader)?.fileHeader;
+  // A submodule unit is written as the "Subproject commit" hunk it came from
+  const textHunks = hunks.filter(h => !h.kind || h.kind === 'submodule');
+  const binaryHunk = hunks.find(h => h.kind === 'binary');
+  const modeHunk = hunks.find(h => h.kind === 'mode');
+
+  // Hunks of a renamed or copied file still live at the old path in the index,
+  // so every patch touching them has to carry the rename/copy as well
+  const oldFile = hunks.find(h => h.oldFile)?.oldFile ?? file;
+
+  const isNew = header?.isNew ?? false;
+  // A partial selection from a deleted file leaves some lines behind
+  const isDeleted = (header?.isDeleted ?? false) && textHunks.every(h => h.lines.every(l => l.type === 'remove'));
+
+  const lines = [`diff --git ${quotePath(`a/${oldFile}`)} ${quotePath(`b/${file}`)}`];
+  if (isNew) lines.push(`new file mode ${header?.newMode ?? '100644'}`);
+  if (isDeleted) lines.push(`deleted file mode ${header?.oldMode ?? '100644'}`);
+
+  // Content hunks leave the index's mode alone unless the mode unit is staged with them
+  if (modeHunk && !isNew && !isDeleted) {
+    lines.push(`old mode ${modeHunk.fileHeader?.oldMode}`);
+    lines.push(`new mode ${modeHunk.fileHeader?.newMode}`);
+  }
+
+  if (oldFile !== file) {
+    const operation = header?.isCopied ? 'copy' : 'rename';
+    if (header?.similarity !== undefined) lines.push(`similarity index ${header.similarity}%`);
+    lines.push(`${operation} from ${quotePath(oldFile)}`);
+    lines.push(`${operation} to ${quotePath(file)}`);
+  }
+
+  // git apply needs the full blob hashes to apply a binary patch
+  if (binaryHunk && header?.oldHash && header.newHash) {
+    const unchangedMode = !isNew && !isDeleted && header.oldMode === header.newMode && header.newMode ? ` ${header.newMode}` : '';
+    lines.push(`index ${header.oldHash}..${header.newHash}${unchangedMode}`);
+  }
+
+  if (textHunks.length > 0) {
+    lines.push(isNew ? '--- /dev/null' : `--- ${formatPatchPath(`a/${oldFile}`)}`);
+    lines.push(isDeleted ? '+++ /dev/null' : `+++ ${formatPatchPath(`b/${file}`)}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Format a name for a "---" or "+++" line
+ * Like git, terminate names containing spaces with a tab so trailing text can't be mistaken for the path
+ */
+function formatPatchPath(name: string): string {
+  const quoted = quotePath(name);
+  return quoted.includes(' ') ? `${quoted}\t` : quoted;
+}
+
+/**
+ * Re-emit the "GIT binary patch" section of a binary unit
+ */
+function formatBinaryPatch(hunk: Hunk): string[] {
+  const binary = hunk.fileHeader?.binary;
+  if (!binary) {
+    // Diffs made without --binary only say that the file differs
+    return [hunk.header];
+  }
+
+  const lines = ['GIT binary patch'];
+  for (const block of [binary.forward, binary.reverse]) {
+    if (!block) continue;
+    lines.push(`${block.method} ${block.size}`, ...block.data, '');
+  }
+  return lines;
+}
+
 /**
  * Recalculate hunk header based on actual lines
  */
@@ -278,7 +999,7 @@ export function recalculateHeader(hunk: Hunk): string {
 }
 
 /**
- * Edit a hunk by removing specific lines
+ * Edit a hunk by removing specific lines or changing their content
  * Returns a new hunk with the modifications
  */
 export function editHunk(
@@ -288,24 +1009,44 @@ export function editHunk(
     removeAdditions?: number[];
     /** Indices in hunk.lines of '-' lines to convert to context (won't be removed) */
     keepRemovals?: number[];
+    /**
+     * Lines to stage with different content. An edited '+' line is added as
+     * `newContent`; an edited context or '-' line is removed and `newContent`
+     * added in its place. Edits override the other modifications.
+     */
+    editLines?: { lineIndex: number; newContent: string }[];
   }
 ): Hunk {
   const removeAddSet = new Set(modifications.removeAdditions || []);
   const keepRemovalSet = new Set(modifications.keepRemovals || []);
+  const edits = new Map<number, string>();
+  for (const edit of modifications.editLines || []) {
+    if (!Number.isInteger(edit.lineIndex) || edit.lineIndex < 0 || edit.lineIndex >= hunk.lines.length) {
+      throw new Error(`Hunk ${hunk.id} has no line ${edit.lineIndex} to edit`);
+    }
+    edits.set(edit.lineIndex, edit.newContent);
+  }
 
   const newLines: DiffLine[] = [];
 
   for (let i = 0; i < hunk.lines.length; i++) {
     const line = hunk.lines[i];
+    const newContent = edits.get(i);
 
-    if (line.type === 'add') {
+    if (newContent !== undefined) {
+      if (line.type === 'add') {
+        newLines.push({ ...line, content: newContent });
+      } else {
+        newLines.push({ ...line, type: 'remove' }, { ...withoutEofMarker(line), type: 'add', content: newContent });
+      }
+    } else if (line.type === 'add') {
       if (!removeAddSet.has(i)) {
         newLines.push(line);
       }
     } else if (line.type === 'remove') {
       if (keepRemovalSet.has(i)) {
         // Convert to context line
-        newLines.push({ type: 'context', content: line.content });
+        newLines.push({ ...line, type: 'context' });
       } else {
         newLines.push(line);
       }
@@ -316,13 +1057,13 @@ export function editHunk(
 
   const editedHunk: Hunk = {
     ...hunk,
-    lines: newLines,
+    lines: normalizeEofMarkers(hunk.lines, newLines),
   };
 
   // Recalculate counts
   let oldCount = 0;
   let newCount = 0;
-  for (const line of newLines) {
+  for (const line of editedHunk.lines) {
     if (line.type === 'context') {
       oldCount++;
       newCount++;
@@ -339,3 +1080,40 @@ export function editHunk(
 
   return editedHunk;
 }
+
+/**
+ * Re-place "\ No newline at end of file" markers after an edit.
+ *
+ * Edits never change the old side, so markers on context/remove lines stay
+ * put. The new side's marker moves to whichever added line now ends the
+ * hunk, and a marked context line that is followed by additions is turned
+ * into a remove/add pair, since it can no longer end both sides.
+ */
+function normalizeEofMarkers(original: DiffLine[], edited: DiffLine[]): DiffLine[] {
+  const newSideNoEol = original.some(l => l.type !== 'remove' && l.noNewlineAtEof);
+  const lines = edited.map(l => (l.type === 'add' ? withoutEofMarker(l) : l));
+
+  let lastOld = -1;
+  let lastNew = -1;
+  lines.forEach((line, i) => {
+    if (line.type !== 'add') lastOld = i;
+    if (line.type !== 'remove') lastNew = i;
+  });
+
+  if (newSideNoEol && lastNew >= 0 && lines[lastNew].type === 'add') {
+    lines[lastNew] = { ...lines[lastNew], noNewlineAtEof: true };
+  }
+
+  if (lastOld >= 0 && lastOld !== lastNew && lines[lastOld].type === 'context' && lines[lastOld].noNewlineAtEof) {
+    const line = lines[lastOld];
+    lines.splice(lastOld, 1, { ...line, type: 'remove' }, { ...withoutEofMarker(line), type: 'add' });
+  }
+
+  return lines;
+}
+
+function withoutEofMarker(line: DiffLine): DiffLine {
+  if (!line.noNewlineAtEof) return line;
+  const { noNewlineAtEof: _marker, ...rest } = line;
+  return rest;
+}
@@ -0,0 +1,122 @@
+import { parseDiff } from '../src/parser';
+import { findMoves } from '../src/moves';
+
+const diff = parseDiff(`diff --git a/src/format.ts b/src/format.ts
+--- a/src/format.ts
++++ b/src/format.ts
+@@ -1,8 +1,3 @@
+-export function formatDate(date: Date): string {
+-  const iso = date.toISOString();
+-  return iso.slice(0, 10);
+-}
+-
+ export function formatName(name: string): string {
+   return name.trim();
+ }
+diff --git a/src/dates.ts b/src/dates.ts
+--- a/src/dates.ts
++++ b/src/dates.ts
+@@ -1 +1,7 @@
+ import { Clock } from './clock';
++export namespace Dates {
++  export function formatDate(date: Date): string {
++    const iso = date.toISOString();
++    return iso.slice(0, 10);
++  }
++}
+`);
+
+describe('findMoves', () => {
+  it('should pair code removed in one file with the same code added in another, whatever its indentation', () => {
+    expect(findMoves(diff.getAllHunks())).toEqual([
+      {
+        from: { hunkId: 'src/format.ts:0', lineIndices: [0, 1, 2, 3, 4] },
+        to: { hunkId: 'src/dates.ts:0', lineIndices: [2, 3, 4, 5, 6] },
+        similarity: 1,
+      },
+    ]);
+  });
+
+  it('should score moved blocks with edited lines by how much of them matches', () => {
+    const edited = parseDiff(`diff --git a/a.py b/a.py
+--- a/a.py
++++ b/a.py
+@@ -1,7 +1,2 @@
+-def load_config(path):
+-    with open(path) as handle:
+-        data = json.load(handle)
+-    return data
+-
+ def main():
+     run()
+@@ -20,2 +15,7 @@ def main():
+     stop()
+     exit()
++
++def load_config(path):
++    with open(path, encoding='utf-8') as handle:
++        data = json.load(handle)
++    return data
+`);
+    expect(findMoves(edited.getAllHunks())).toEqual([]);
+    expect(findMoves(edited.getAllHunks(), { minSimilarity: 0.7 })).toEqual([
+      {
+        from: { hunkId: 'a.py:0', lineIndices: [0, 1, 2, 3, 4] },
+        to: { hunkId: 'a.py:1', lineIndices: [2, 3, 4, 5, 6] },
+        similarity: 0.75,
+      },
+    ]);
+  });
+
+  it('should not count edits in place or short lines as moves', () => {
+    const edits = parseDiff(`diff --git a/a.js b/a.js
+--- a/a.js
++++ b/a.js
+@@ -1,3 +1,3 @@
+ function total(items) {
+-  const total = computeTotal(items, tax);
++    const total = computeTotal(items, tax);
+ }
+@@ -10,3 +10,2 @@
+ a();
+-x = 1;
+ b();
+diff --git a/b.js b/b.js
+--- a/b.js
++++ b/b.js
+@@ -1,2 +1,3 @@
+ c();
++x = 1;
+ d();
+`);
+    expect(findMoves(edits.getAllHunks())).toEqual([]);
+  });
+
+  it('should give each removed block to its closest copy', () => {
+    const copies = parseDiff(`diff --git a/a.ts b/a.ts
+--- a/a.ts
++++ b/a.ts
+@@ -1,3 +1,3 @@
+-const retryLimit = readSetting('retry.limit');
+-const retryDelay = readSetting('retry.delay');
+-const retryJitter = readSetting('retry.jitter');
++const retryLimit = readSetting('retry.limit');
++const retryDelay = readSetting('retry.delay.ms');
++const retryJitter = readSetting('retry.jitter');
+diff --git a/b.ts b/b.ts
+--- a/b.ts
++++ b/b.ts
+@@ -0,0 +1,3 @@
++const retryLimit = readSetting('retry.limit');
++const retryDelay = readSetting('retry.delay');
++const retryJitter = readSetting('retry.jitter');
+`);
+    expect(findMoves(copies.getAllHunks())).toEqual([
+      {
+        from: { hunkId: 'a.ts:0', lineIndices: [0, 1, 2] },
+        to: { hunkId: 'b.ts:0', lineIndices: [0, 1, 2] },
+        similarity: 1,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Moved-code detection
+ *
+ * A function moved to another file, or to elsewhere in the same one,
+ * shows up as a removal and an addition that look unrelated; committed
+ * apart, one commit loses the code and the other duplicates it. Like
+ * git's --color-moved, this pairs removed blocks with the added blocks
+ * they reappear as. Lines are compared without their indentation, so code
+ * moved into or out of a block still pairs up, and a few edited lines
+ * inside a moved block lower its similarity rather than breaking it up.
+ */
+
+import { Hunk } from './types.js';
+
+/**
+ * Options for finding moved code
+ */
+export interface MoveOptions {
+  /** Lowest similarity for a removed and an added block to count as a move, from 0 to 1 (default 0.8) */
+  minSimilarity?: number;
+  /** Fewest letters and digits the matching lines must have between them (default 20, as in git) */
+  minAlnumChars?: number;
+}
+
+/**
+ * One side of a move: a block of lines in one hunk
+ */
+export interface MoveSide {
+  /** The hunk the lines are in */
+  hunkId: string;
+  /** Indices of the lines in the hunk */
+  lineIndices: number[];
+}
+
+/**
+ * A block of removed lines and the block of added lines it moved to
+ */
+export interface MovePair {
+  /** The removed lines */
+  from: MoveSide;
+  /** The added lines */
+  to: MoveSide;
+  /** How alike the two blocks are, from 0 to 1 (1 when at most the indentation changed) */
+  similarity: number;
+}
+
+/** Most edited or unmatched lines between two matching runs of one moved block */
+const MAX_GAP = 3;
+
+/**
+ * A run of added or removed lines in one hunk
+ */
+interface Block {
+  hunk: Hunk;
+  /** Position of the hunk in the input, for ordering results */
+  order: number;
+  /** Which run of changes in the hunk the block is in; a removal and an addition in the same run are an edit, not a move */
+  run: number;
+  type: 'add' | 'remove';
+  /** Indices of all the block's lines */
+  lines: number[];
+  /** The lines that have letters or digits, which are the ones compared */
+  entries: BlockEntry[];
+}
+
+/**
+ * A line of a block as it is compared
+ */
+interface BlockEntry {
+  /** Index of the line in its hunk */
+  index: number;
+  /** The line without leading and trailing whitespace */
+  key: string;
+  alnum: number;
+}
+
+/**
+ * Lines that match one for one: entries `from` to `from + length` and `to` to `to + length`
+ */
+interface MatchRun {
+  from: number;
+  to: number;
+  length: number;
+}
+
+/**
+ * A possible move, before moves that claim the same lines are weeded out
+ */
+interface MoveCandidate extends MovePair {
+  order: number;
+  /** Number of matching lines */
+  matches: number;
+  /** Letters and digits in the matching lines */
+  alnum: number;
+}
+
+/**
+ * Find code that the hunks remove in one place and add in another
+ *
+ * Each removed line belongs to at most one move, and so does each added
+ * line; where code was duplicated, the largest and most similar match
+ * wins. Pairs come in the order of their removed blocks. Edits within a
+ * run of changes are not moves, nor are whole-file units.
+ */
+export function findMoves(hunks: Hunk[], options: MoveOptions = {}): MovePair[] {
+  const { minSimilarity = 0.8, minAlnumChars = 20 } = options;
+  const { removed, added } = collectBlocks(hunks);
+
+  const addedByKey = new Map<string, Set<Block>>();
+  for (const block of added) {
+    for (const entry of block.entries) {
+      const blocks = addedByKey.get(entry.key) ?? new Set<Block>();
+      blocks.add(block);
+      addedByKey.set(entry.key, blocks);
+    }
+  }
+
+  const candidates: MoveCandidate[] = [];
+  for (const from of removed) {
+    const targets = new Set(from.entries.flatMap(e => [...(addedByKey.get(e.key) ?? [])]));
+    for (const to of targets) {
+      if (to.hunk === from.hunk && to.run === from.run) continue;
+      for (const candidate of matchBlocks(from, to)) {
+        if (candidate.similarity >= minSimilarity && candidate.alnum >= minAlnumChars) {
+          candidates.push(candidate);
+        }
+      }
+    }
+  }
+
+  // Larger and closer matches claim their lines first
+  candidates.sort((a, b) => b.matches - a.matches || b.similarity - a.similarity);
+  const claimedFrom = new Set<string>();
+  const claimedTo = new Set<string>();
+  const moves: MoveCandidate[] = [];
+  for (const candidate of candidates) {
+    const fromKeys = candidate.from.lineIndices.map(i => `${candidate.from.hunkId}\0${i}`);
+    const toKeys = candidate.to.lineIndices.map(i => `${candidate.to.hunkId}\0${i}`);
+    if (fromKeys.some(k => claimedFrom.has(k)) || toKeys.some(k => claimedTo.has(k))) continue;
+    fromKeys.forEach(k => claimedFrom.add(k));
+    toKeys.forEach(k => claimedTo.add(k));
+    moves.push(candidate);
+  }
+
+  return moves
+    .sort((a, b) => a.order - b.order || a.from.lineIndices[0] - b.from.lineIndices[0])
+    .map(({ from, to, similarity }) => ({ from, to, similarity }));
+}
+
+/**
+ * Split the hunks' changes into blocks of consecutive removals and of consecutive additions
+ */
+function collectBlocks(hunks: Hunk[]): { removed: Block[]; added: Block[] } {
+  const removed: Block[] = [];
+  const added: Block[] = [];
+
+  hunks.forEach((hunk, order) => {
+    if (hunk.kind || hunk.parentRanges) return;
+
+    let run = 0;
+    let current: Block | undefined;
+    hunk.lines.forEach((line, index) => {
+      if (line.type === 'context') {
+        run++;
+        current = undefined;
+        return;
+      }
+      if (current?.type !== line.type) {
+        current = { hunk, order, run, type: line.type, lines: [], entries: [] };
+        (line.type === 'remove' ? removed : added).push(current);
+      }
+
+      current.lines.push(index);
+      const key = line.content.trim();
+      const alnum = countAlnum(key);
+      if (alnum > 0) current.entries.push({ index, key, alnum });
+    });
+  });
+
+  return { removed, added };
+}
+
+/**
+ * The parts of a removed block that reappear in an added block
+ *
+ * Lines are matched in runs, longest first, and runs no more than
+ * MAX_GAP lines apart on both sides are joined into one moved block.
+ */
+function matchBlocks(from: Block, to: Block): MoveCandidate[] {
+  const positions = new Map<string, number[]>();
+  to.entries.forEach((entry, j) => positions.set(entry.key, [...(positions.get(entry.key) ?? []), j]));
+
+  const runs: MatchRun[] = [];
+  from.entries.forEach((entry, i) => {
+    for (const j of positions.get(entry.key) ?? []) {
+      // Only start runs where they begin, not partway along
+      if (i > 0 && j > 0 && from.entries[i - 1].key === to.entries[j - 1].key) continue;
+      let length = 1;
+      while (
+        i + length < from.entries.length &&
+        j + length < to.entries.length &&
+        from.entries[i + length].key === to.entries[j + length].key
+      ) {
+        length++;
+      }
+      runs.push({ from: i, to: j, length });
+    }
+  });
+
+  // Each line matches once, to the longest run it is in
+  runs.sort((a, b) => b.length - a.length);
+  const usedFrom = new Set<number>();
+  const usedTo = new Set<number>();
+  const chosen: MatchRun[] = [];
+  for (const run of runs) {
+    const fromRange = range(run.from, run.length);
+    const toRange = range(run.to, run.length);
+    if (fromRange.some(i => usedFrom.has(i)) || toRange.some(j => usedTo.has(j))) continue;
+    fromRange.forEach(i => usedFrom.add(i));
+    toRange.forEach(j => usedTo.add(j));
+    chosen.push(run);
+  }
+  chosen.sort((a, b) => a.from - b.from);
+
+  const clusters: MatchRun[][] = [];
+  for (const run of chosen) {
+    const cluster = clusters[clusters.length - 1];
+    const previous = cluster?.[cluster.length - 1];
+    const fromGap = previous ? run.from - (previous.from + previous.length) : -1;
+    const toGap = previous ? run.to - (previous.to + previous.length) : -1;
+    if (previous && fromGap >= 0 && fromGap <= MAX_GAP && toGap >= 0 && toGap <= MAX_GAP) {
+      cluster.push(run);
+    } else {
+      clusters.push([run]);
+    }
+  }
+
+  return clusters.map(cluster => {
+    const first = cluster[0];
+    const last = cluster[cluster.length - 1];
+    const matches = cluster.reduce((sum, run) => sum + run.length, 0);
+    const alnum = cluster.flatMap(run => range(run.from, run.length)).reduce((sum, i) => sum + from.entries[i].alnum, 0);
+    const fromSpan = last.from + last.length - first.from;
+    const toSpan = last.to + last.length - first.to;
+    return {
+      from: { hunkId: from.hunk.id, lineIndices: blockLines(from, first.from, last.from + last.length - 1) },
+      to: { hunkId: to.hunk.id, lineIndices: blockLines(to, first.to, last.to + last.length - 1) },
+      similarity: Math.round((200 * matches) / (fromSpan + toSpan)) / 100,
+      order: from.order,
+      matches,
+      alnum,
+    };
+  });
+}
+
+/**
+ * The lines of a block from one compared entry to another, with the
+ * lines around them that have nothing to compare (braces, blank lines)
+ */
+function blockLines(block: Block, firstEntry: number, lastEntry: number): number[] {
+  const start = firstEntry === 0 ? 0 : block.lines.indexOf(block.entries[firstEntry - 1].index) + 1;
+  const end = lastEntry === block.entries.length - 1
+    ? block.lines.length
+    : block.lines.indexOf(block.entries[lastEntry + 1].index);
+  return block.lines.slice(start, end);
+}
+
+/**
+ * Count the letters and digits in a line
+ */
+function countAlnum(text: string): number {
+  return text.replace(/[^\p{L}\p{N}]/gu, '').length;
+}
+
+/**
+ * The `length` numbers starting at `start`
+ */
+function range(start: number, length: number): number[] {
+  return Array.from({ length }, (_, k) => start + k);
+}
@@ -0,0 +1,27 @@
+import { FileDiff, Hunk, ParsedDiff } from './types.js';
+
+/**
+ * Create a ParsedDiff object with helper methods
+ */
+export function createParsedDiff(files: FileDiff[]): ParsedDiff {
+  return {
+    files,
+
+    getAllHunks(): Hunk[] {
+      return files.flatMap(f => f.hunks);
+    },
+
+    getHunk(id: string): Hunk | undefined {
+      for (const file of files) {
+        const hunk = file.hunks.find((h: Hunk) => h.id === id || h.stableId === id);
+        if (hunk) return hunk;
+      }
+      return undefined;
+    },
+
+    getFileHunks(filePath: string): Hunk[] {
+      const file = files.find(f => f.newPath === filePath || f.oldPath === filePath);
+      return file?.hunks ?? [];
+    },
+  };
+}
@@ -1,4 +1,6 @@
-import { parseDiff, parseHunkHeader, validateHunk } from '../src/parser';
+import { Readable } from 'stream';
+import { parseDiff, parseDiffStream, parseHunkHeader, validateHunk } from '../src/parser';
+import { FileDiff } from '../src/types';
 
 describe('parseDiff', () => {
   const simpleDiff = `diff --git a/file.txt b/file.txt
@@ -150,6 +152,678 @@ index abc123..0000000
     expect(hunk.oldCount).toBe(4);
     expect(hunk.newCount).toBe(3);
   });
+
+  it('should attach "no newline at end of file" markers to the preceding line', () => {
+    const eofDiff = `diff --git a/file.txt b/file.txt
+--- a/file.txt
++++ b/file.txt
+@@ -1,2 +1,3 @@
+ line 1
+-line 2
+\\ No newline at end of file
++line 2
++line 3
+\\ No newline at end of file
+`;
+
+    const result = parseDiff(eofDiff);
+    const hunk = result.files[0].hunks[0];
+
+    expect(hunk.lines).toHaveLength(4);
+    expect(hunk.lines[0].noNewlineAtEof).toBeUndefined();
+    expect(hunk.lines[1]).toEqual({ type: 'remove', content: 'line 2', noNewlineAtEof: true });
+    expect(hunk.lines[2].noNewlineAtEof).toBeUndefined();
+    expect(hunk.lines[3]).toEqual({ type: 'add', content: 'line 3', noNewlineAtEof: true });
+  });
+});
+
+describe('parseDiff with binary files', () => {
+  const binaryDiff = `diff --git a/img.bin b/img.bin
+index 9583496fd9b881325fc7085e7d6b84ca0573355d..0667f8ce41f05c245dccebe36137cff538496f5d 100644
+GIT binary patch
+literal 8
+PcmYdfNMcA%NlgO)2}A-\`
+
+literal 5
+McmYdfNMc9^00VOYCjbBd
+
+diff --git a/file.txt b/file.txt
+--- a/file.txt
++++ b/file.txt
+@@ -1,2 +1,3 @@
+ line 1
++added
+ line 2
+`;
+
+  it('should keep binary files as a single whole-file unit', () => {
+    const result = parseDiff(binaryDiff);
+
+    expect(result.files).toHaveLength(2);
+    const file = result.files[0];
+    expect(file.isBinary).toBe(true);
+    expect(file.oldHash).toBe('9583496fd9b881325fc7085e7d6b84ca0573355d');
+    expect(file.newHash).toBe('0667f8ce41f05c245dccebe36137cff538496f5d');
+    expect(file.hunks).toHaveLength(1);
+    expect(file.hunks[0]).toMatchObject({ id: 'img.bin:0', kind: 'binary', lines: [] });
+  });
+
+  it('should parse literal blocks of a GIT binary patch', () => {
+    const { binary } = parseDiff(binaryDiff).files[0];
+
+    expect(binary?.forward).toEqual({ method: 'literal', size: 8, data: ['PcmYdfNMcA%NlgO)2}A-`'] });
+    expect(binary?.reverse).toEqual({ method: 'literal', size: 5, data: ['McmYdfNMc9^00VOYCjbBd'] });
+  });
+
+  it('should continue parsing text files after a binary patch', () => {
+    const result = parseDiff(binaryDiff);
+    expect(result.files[1].isBinary).toBeUndefined();
+    expect(result.getHunk('file.txt:0')?.lines).toHaveLength(3);
+  });
+
+  it('should mark binary files diffed without --binary', () => {
+    const result = parseDiff(`diff --git a/new.bin b/new.bin
+new file mode 100644
+index 0000000..41e3e49
+Binary files /dev/null and b/new.bin differ
+`);
+
+    expect(result.files[0].isBinary).toBe(true);
+    expect(result.files[0].binary).toBeUndefined();
+    expect(result.files[0].hunks[0].header).toBe('Binary files /dev/null and b/new.bin differ');
+  });
+});
+
+describe('parseDiff with file modes', () => {
+  const modeDiff = `diff --git a/link b/link
+index 35d5d0e..03c250e 120000
+--- a/link
++++ b/link
+@@ -1 +1 @@
+-s.sh
+\\ No newline at end of file
++t.sh
+\\ No newline at end of file
+diff --git a/t.sh b/t.sh
+old mode 100644
+new mode 100755
+index 587be6b..6c82bf0
+--- a/t.sh
++++ b/t.sh
+@@ -1 +1,2 @@
+ x
++echo 2
+diff --git a/run.sh b/run.sh
+new file mode 100755
+index 0000000..6c82bf0
+--- /dev/null
++++ b/run.sh
+@@ -0,0 +1 @@
++echo 2
+`;
+
+  it('should record unchanged modes from the index line', () => {
+    const link = parseDiff(modeDiff).files[0];
+    expect(link.oldMode).toBe('120000');
+    expect(link.newMode).toBe('120000');
+    expect(link.hunks.map(h => h.id)).toEqual(['link:0']);
+  });
+
+  it('should create a separate mode change unit', () => {
+    const file = parseDiff(modeDiff).files[1];
+
+    expect(file.oldMode).toBe('100644');
+    expect(file.newMode).toBe('100755');
+    expect(file.hunks.map(h => h.id)).toEqual(['t.sh:mode', 't.sh:0']);
+    expect(file.hunks[0]).toMatchObject({ kind: 'mode', index: -1, header: 'mode change 100644 => 100755' });
+    expect(file.hunks[1].index).toBe(0);
+  });
+
+  it('should record the mode of new files without a mode change unit', () => {
+    const file = parseDiff(modeDiff).files[2];
+    expect(file.newMode).toBe('100755');
+    expect(file.hunks.map(h => h.id)).toEqual(['run.sh:0']);
+  });
+
+  it('should surface mode-only changes', () => {
+    const result = parseDiff(`diff --git a/s.sh b/s.sh
+old mode 100644
+new mode 100755
+`);
+    expect(result.getAllHunks().map(h => h.id)).toEqual(['s.sh:mode']);
+  });
+});
+
+describe('parseDiff with submodules', () => {
+  const bump = `diff --git a/lib b/lib
+index e96a4fe..a9132d2 160000
+--- a/lib
++++ b/lib
+@@ -1 +1 @@
+-Subproject commit e96a4fea5b4b5a03215d2c35b8d168e42b800a9d
++Subproject commit a9132d22e5e8d0a0bf5becf9b2d6c88717887e57-dirty
+`;
+
+  it('should turn a gitlink hunk into a submodule unit', () => {
+    const file = parseDiff(bump).files[0];
+    expect(file.submodule).toEqual({
+      oldCommit: 'e96a4fea5b4b5a03215d2c35b8d168e42b800a9d',
+      newCommit: 'a9132d22e5e8d0a0bf5becf9b2d6c88717887e57',
+      dirty: true,
+    });
+    expect(file.hunks.map(h => [h.id, h.kind])).toEqual([['lib:0', 'submodule']]);
+    expect(file.hunks[0].fileHeader?.submodule).toEqual(file.submodule);
+  });
+
+  it('should record only the new commit of an added submodule', () => {
+    const file = parseDiff(`diff --git a/lib b/lib
+new file mode 160000
+index 0000000..e96a4fe
+--- /dev/null
++++ b/lib
+@@ -0,0 +1 @@
++Subproject commit e96a4fea5b4b5a03215d2c35b8d168e42b800a9d
+`).files[0];
+    expect(file.submodule).toEqual({ newCommit: 'e96a4fea5b4b5a03215d2c35b8d168e42b800a9d' });
+    expect(file.hunks[0].kind).toBe('submodule');
+  });
+
+  it('should leave ordinary files mentioning subprojects alone', () => {
+    const file = parseDiff(`diff --git a/notes.txt b/notes.txt
+index 1111111..2222222 100644
+--- a/notes.txt
++++ b/notes.txt
+@@ -1 +1 @@
+-Subproject commit e96a4fea5b4b5a03215d2c35b8d168e42b800a9d
++Subproject commit a9132d22e5e8d0a0bf5becf9b2d6c88717887e57
+`).files[0];
+    expect(file.submodule).toBeUndefined();
+    expect(file.hunks[0].kind).toBeUndefined();
+  });
+});
+
+describe('parseDiff with renames and copies', () => {
+  const renameDiff = `diff --git a/a.txt b/b.txt
+similarity index 90%
+rename from a.txt
+rename to b.txt
+index 0ff3bbb..fb3ced1 100644
+--- a/a.txt
++++ b/b.txt
+@@ -2,3 +2,3 @@
+ 4
+-5
++five
+ 6
+diff --git a/c.txt b/d.txt
+similarity index 95%
+copy from c.txt
+copy to d.txt
+index 940a9ce..4d5f0ad 100644
+--- a/c.txt
++++ b/d.txt
+@@ -29,1 +29,2 @@
+ 130
++extra
+`;
+
+  it('should capture rename metadata', () => {
+    const file = parseDiff(renameDiff).files[0];
+
+    expect(file).toMatchObject({ oldPath: 'a.txt', newPath: 'b.txt', isRenamed: true, similarity: 90 });
+    expect(file.isCopied).toBeUndefined();
+  });
+
+  it('should capture copy metadata', () => {
+    const file = parseDiff(renameDiff).files[1];
+    expect(file).toMatchObject({ oldPath: 'c.txt', newPath: 'd.txt', isRenamed: false, isCopied: true, similarity: 95 });
+  });
+
+  it('should make the rename or copy its own unit ahead of the content hunks', () => {
+    const result = parseDiff(renameDiff);
+
+    expect(result.getAllHunks().map(h => h.id)).toEqual(['b.txt:rename', 'b.txt:0', 'd.txt:copy', 'd.txt:0']);
+    expect(result.getHunk('b.txt:rename')).toMatchObject({ kind: 'rename', file: 'b.txt', oldFile: 'a.txt' });
+    expect(result.getHunk('d.txt:copy')).toMatchObject({ kind: 'copy', file: 'd.txt', oldFile: 'c.txt' });
+  });
+
+  it('should give content hunks both paths', () => {
+    const hunk = parseDiff(renameDiff).getHunk('b.txt:0');
+    expect(hunk).toMatchObject({ file: 'b.txt', oldFile: 'a.txt' });
+  });
+
+  it('should not set oldFile for files that keep their path', () => {
+    const hunk = parseDiff(`diff --git a/file.txt b/file.txt
+--- a/file.txt
++++ b/file.txt
+@@ -1 +1 @@
+-a
++b
+`).getAllHunks()[0];
+    expect(hunk.oldFile).toBeUndefined();
+  });
+});
+
+describe('parseDiff with unusual paths', () => {
+  it('should decode quoted non-ASCII paths', () => {
+    const file = parseDiff(`diff --git "a/caf\\303\\251.txt" "b/caf\\303\\251.txt"
+index 7898192..422c2b7 100644
+--- "a/caf\\303\\251.txt"
++++ "b/caf\\303\\251.txt"
+@@ -1 +1,2 @@
+ a
++b
+`).files[0];
+
+    expect(file).toMatchObject({ oldPath: 'café.txt', newPath: 'café.txt', isRenamed: false });
+    expect(file.hunks[0].id).toBe('café.txt:0');
+  });
+
+  it('should decode escaped quotes', () => {
+    const file = parseDiff(`diff --git "a/q\\"t.txt" "b/q\\"t.txt"
+--- "a/q\\"t.txt"
++++ "b/q\\"t.txt"
+@@ -1 +1 @@
+-a
++b
+`).files[0];
+    expect(file.newPath).toBe('q"t.txt');
+  });
+
+  it('should handle paths with spaces and " b/" in them', () => {
+    const file = parseDiff(`diff --git a/x b/y b/x b/y
+index 7898192..422c2b7 100644
+--- a/x b/y\t
++++ b/x b/y\t
+@@ -1 +1 @@
+-a
++b
+`).files[0];
+    expect(file).toMatchObject({ oldPath: 'x b/y', newPath: 'x b/y', isRenamed: false });
+  });
+
+  it('should take ambiguous rename paths from the rename lines', () => {
+    const file = parseDiff(`diff --git a/my file.txt b/new b/n a.txt
+similarity index 50%
+rename from my file.txt
+rename to new b/n a.txt
+`).files[0];
+    expect(file).toMatchObject({ oldPath: 'my file.txt', newPath: 'new b/n a.txt', isRenamed: true });
+  });
+
+  it('should mix quoted and unquoted sides', () => {
+    const file = parseDiff(`diff --git a/plain.txt "b/caf\\303\\251.txt"
+similarity index 100%
+rename from plain.txt
+rename to "caf\\303\\251.txt"
+`).files[0];
+    expect(file).toMatchObject({ oldPath: 'plain.txt', newPath: 'café.txt', isRenamed: true });
+  });
+
+  it('should take the path of new files with ambiguous names from the +++ line', () => {
+    const file = parseDiff(`diff --git a/a b/c b/a b/c
+new file mode 100644
+--- /dev/null
++++ b/a b/c\t
+@@ -0,0 +1 @@
++x
+`).files[0];
+    expect(file).toMatchObject({ oldPath: 'a b/c', newPath: 'a b/c', isNew: true });
+  });
+});
+
+describe('parseDiff with combined diffs', () => {
+  const conflictDiff = `diff --cc g.txt
+index ba2906d,2299c37..0000000
+--- a/g.txt
++++ b/g.txt
+@@@ -1,1 -1,1 +1,5 @@@
+++<<<<<<< HEAD
+ +main
+++=======
++ side
+++>>>>>>> side
+`;
+
+  it('should capture the per-parent file metadata', () => {
+    const file = parseDiff(conflictDiff).files[0];
+
+    expect(file).toMatchObject({
+      oldPath: 'g.txt',
+      newPath: 'g.txt',
+      isCombined: true,
+      isRenamed: false,
+      parentHashes: ['ba2906d', '2299c37'],
+      newHash: '0000000',
+    });
+  });
+
+  it('should give each hunk a range per parent', () => {
+    const hunk = parseDiff(conflictDiff).getHunk('g.txt:0')!;
+
+    expect(hunk.parentRanges).toEqual([{ start: 1, count: 1 }, { start: 1, count: 1 }]);
+    expect(hunk).toMatchObject({ oldStart: 1, oldCount: 1, newStart: 1, newCount: 5 });
+    expect(validateHunk(hunk)).toEqual({ valid: true });
+  });
+
+  it('should record which parents have each line', () => {
+    const lines = parseDiff(conflictDiff).getHunk('g.txt:0')!.lines;
+
+    expect(lines[0]).toEqual({ type: 'add', content: '<<<<<<< HEAD', inParents: [false, false] });
+    // Added relative to the parent that lacks it
+    expect(lines[1]).toEqual({ type: 'add', content: 'main', inParents: [true, false] });
+    expect(lines[3]).toEqual({ type: 'add', content: 'side', inParents: [false, true] });
+  });
+
+  it('should treat lines dropped by the merge as removals from the parents that had them', () => {
+    const hunk = parseDiff(`diff --cc g.txt
+index ba2906d,2299c37..2ab19ae
+--- a/g.txt
++++ b/g.txt
+@@@ -1,1 -1,1 +1,1 @@@
+- main
+ -side
+++resolved
+`).getAllHunks()[0];
+
+    expect(hunk.lines.map(l => [l.type, l.inParents])).toEqual([
+      ['remove', [true, false]],
+      ['remove', [false, true]],
+      ['add', [false, false]],
+    ]);
+    expect(validateHunk(hunk)).toEqual({ valid: true });
+  });
+
+  it('should handle octopus merges and combined mode lines', () => {
+    const file = parseDiff(`diff --combined run.sh
+mode 100644,100644,100755..100755
+index 1111111,2222222,3333333..4444444
+--- a/run.sh
++++ b/run.sh
+@@@@ -1 -1 -1 +1,2 @@@@
+   a
++++b
+`).files[0];
+
+    expect(file).toMatchObject({ parentModes: ['100644', '100644', '100755'], newMode: '100755' });
+    expect(file.hunks.map(h => h.id)).toEqual(['run.sh:0']);
+    expect(file.hunks[0].parentRanges).toHaveLength(3);
+    expect(validateHunk(file.hunks[0])).toEqual({ valid: true });
+  });
+});
+
+describe('parseDiff with non-git diffs', () => {
+  it('should find files from "---"/"+++" pairs of diff -ruN output', () => {
+    const result = parseDiff(`diff -ruN old/add.txt new/add.txt
+--- old/add.txt	1970-01-01 00:00:00.000000000 +0000
++++ new/add.txt	2026-10-18 16:54:08.843503273 +0000
+@@ -0,0 +1 @@
++hi
+diff -ruN old/src/x.c new/src/x.c
+--- old/src/x.c	2026-10-18 16:54:08.843503273 +0000
++++ new/src/x.c	2026-10-18 16:54:08.843503273 +0000
+@@ -1,3 +1,3 @@
+ a
+-b
++B
+ c
+`);
+
+    expect(result.files.map(f => f.newPath)).toEqual(['add.txt', 'src/x.c']);
+    expect(result.files[0]).toMatchObject({ isNew: true, isDeleted: false, isRenamed: false });
+    expect(result.files[1]).toMatchObject({ oldPath: 'src/x.c', isNew: false });
+    expect(result.getAllHunks().map(h => h.id)).toEqual(['add.txt:0', 'src/x.c:0']);
+  });
+
+  it('should not mistake "---"/"+++" content lines for a new file', () => {
+    const result = parseDiff(`--- a/schema.sql
++++ b/schema.sql
+@@ -1,2 +1,2 @@
+--- old comment
++++ new comment
+ SELECT 1;
+`);
+
+    expect(result.files).toHaveLength(1);
+    expect(result.files[0].hunks[0].lines.map(l => l.type)).toEqual(['remove', 'add', 'context']);
+  });
+
+  it('should take the path from svn "Index:" lines', () => {
+    const result = parseDiff(`Index: trunk/src/app.c
+===================================================================
+--- trunk/src/app.c	(revision 12)
++++ trunk/src/app.c	(working copy)
+@@ -1 +1 @@
+-a
++b
+Index: trunk/NEW
+===================================================================
+--- trunk/NEW	(nonexistent)
++++ trunk/NEW	(working copy)
+@@ -0,0 +1 @@
++x
+`);
+
+    expect(result.files.map(f => f.newPath)).toEqual(['trunk/src/app.c', 'trunk/NEW']);
+    expect(result.files[1].isNew).toBe(true);
+  });
+
+  it('should strip the configured number of leading directories', () => {
+    const diff = `--- project/src/a.ts
++++ project/src/a.ts
+@@ -1 +1 @@
+-a
++b
+`;
+    expect(parseDiff(diff).files[0].newPath).toBe('src/a.ts');
+    expect(parseDiff(diff, { strip: 0 }).files[0].newPath).toBe('project/src/a.ts');
+    expect(parseDiff(diff, { strip: 2 }).files[0].newPath).toBe('a.ts');
+  });
+
+  it('should pick the real file when the names differ', () => {
+    const result = parseDiff(`--- src/app.c.orig	2024-01-01 10:00:00.000000000 +0100
++++ src/app.c	2024-01-01 10:05:00.000000000 +0100
+@@ -1 +1 @@
+-a
++b
+`, { strip: 0 });
+    expect(result.files[0]).toMatchObject({ oldPath: 'src/app.c', newPath: 'src/app.c', isRenamed: false });
+  });
+
+  it('should read empty lines inside a hunk as empty context lines', () => {
+    // Mailers strip the single space of an empty context line
+    const result = parseDiff(`--- a/one.txt
++++ b/one.txt
+@@ -1,3 +1,2 @@
+-a
+
+ c
+--- a/two.txt
++++ b/two.txt
+@@ -1 +1 @@
+-x
++y
+`);
+
+    expect(result.files.map(f => f.newPath)).toEqual(['one.txt', 'two.txt']);
+    expect(result.files[0].hunks[0].lines).toEqual([
+      { type: 'remove', content: 'a' },
+      { type: 'context', content: '' },
+      { type: 'context', content: 'c' },
+    ]);
+  });
+});
+
+describe('parseDiff in strict mode', () => {
+  const header = `diff --git a/f.txt b/f.txt
+--- a/f.txt
++++ b/f.txt
+`;
+
+  it('should report nothing for a well-formed diff', () => {
+    const result = parseDiff(`${header}@@ -1,3 +1,3 @@
+ a
+-b
++B
+ c
+`, { strict: true });
+    expect(result.diagnostics).toEqual([]);
+  });
+
+  it('should only set diagnostics when asked to', () => {
+    expect(parseDiff(`${header}@@ -1,3 +1,3 @@\n a\n`).diagnostics).toBeUndefined();
+  });
+
+  it('should report a hunk cut short where the next one starts', () => {
+    const result = parseDiff(`${header}@@ -1,3 +1,3 @@
+ a
+-b
++B
+@@ -10 +10 @@
+-x
++y
+`, { strict: true });
+
+    expect(result.diagnostics).toEqual([{
+      line: 8,
+      severity: 'error',
+      code: 'truncated-hunk',
+      message: 'Hunk @@ -1,3 +1,3 @@ ends with 1 old and 1 new line(s) missing',
+      hunkId: 'f.txt:0',
+    }]);
+  });
+
+  it('should report a hunk truncated at the end of the input', () => {
+    const result = parseDiff(`${header}@@ -1,2 +1,2 @@\n a\n`, { strict: true });
+    expect(result.diagnostics).toMatchObject([{ line: 6, code: 'truncated-hunk' }]);
+  });
+
+  it('should report the first line beyond the header counts', () => {
+    const result = parseDiff(`${header}@@ -1 +1 @@
+-a
++b
++c
++d
+`, { strict: true });
+    expect(result.diagnostics).toMatchObject([{ line: 7, severity: 'error', code: 'count-mismatch', hunkId: 'f.txt:0' }]);
+  });
+
+  it('should report unknown prefixes, orphan hunks and malformed headers', () => {
+    const result = parseDiff(`@@ -1 +1 @@
+-x
++y
+${header}@@ -1,2 +1,2 @@
+ a
+*b
+ c
+@@ -5,x +5 @@
+`, { strict: true });
+
+    expect(result.diagnostics?.map(d => [d.line, d.code])).toEqual([
+      [1, 'orphan-hunk'],
+      [9, 'unknown-prefix'],
+      [11, 'invalid-hunk-header'],
+    ]);
+  });
+
+  it('should report a malformed header inside a hunk only once', () => {
+    const result = parseDiff(`${header}@@ -1,3 +1,3 @@
+ a
+@@ -5,x +5 @@
+-b
++B
+ c
+`, { strict: true });
+
+    expect(result.diagnostics).toHaveLength(1);
+    expect(result.diagnostics).toMatchObject([{ line: 6, code: 'invalid-hunk-header' }]);
+  });
+
+  it('should check combined hunks against every parent', () => {
+    const result = parseDiff(`diff --cc g.txt
+index ba2906d,2299c37..2ab19ae
+--- a/g.txt
++++ b/g.txt
+@@@ -1,2 -1,1 +1,1 @@@
+- main
+++resolved
+`, { strict: true });
+
+    expect(result.diagnostics).toMatchObject([{
+      line: 5,
+      code: 'count-mismatch',
+      message: 'Hunk @@@ -1,2 -1,1 +1,1 @@@: Parent 1 count mismatch: header says 2, actual is 1',
+    }]);
+  });
+
+  it('should warn about a stray end-of-file marker', () => {
+    const result = parseDiff(`${header}@@ -1 +1 @@
+\\ No newline at end of file
+-a
++b
+`, { strict: true });
+    expect(result.diagnostics).toMatchObject([{ line: 5, severity: 'warning', code: 'misplaced-eof-marker' }]);
+  });
+});
+
+describe('parseDiffStream', () => {
+  const diff = `diff --git a/one.txt b/one.txt
+--- a/one.txt
++++ b/one.txt
+@@ -1 +1 @@
+-a
++b
+diff --git a/two.txt b/two.txt
+new file mode 100755
+--- /dev/null
++++ b/two.txt
+@@ -0,0 +1,2 @@
++x
++y
+@@ -10 +11 @@
+-z
++w
+`;
+
+  async function collect(files: AsyncIterable<FileDiff>): Promise<FileDiff[]> {
+    const result: FileDiff[] = [];
+    for await (const file of files) result.push(file);
+    return result;
+  }
+
+  it('should yield the same files as parseDiff from an async iterable of lines', async () => {
+    async function* lines() {
+      yield* diff.split('\n');
+    }
+
+    const files = await collect(parseDiffStream(lines()));
+    expect(files).toEqual(parseDiff(diff).files);
+  });
+
+  it('should read lines from a Readable', async () => {
+    // Chunk boundaries need not line up with lines
+    const files = await collect(parseDiffStream(Readable.from([diff.slice(0, 30), diff.slice(30)])));
+
+    expect(files.map(f => f.newPath)).toEqual(['one.txt', 'two.txt']);
+    expect(files[1].hunks.map(h => h.id)).toEqual(['two.txt:0', 'two.txt:1']);
+  });
+
+  it('should yield each file before the rest of the input arrives', async () => {
+    let linesRead = 0;
+    async function* lines() {
+      for (const line of diff.split('\n')) {
+        linesRead++;
+        yield line;
+      }
+    }
+
+    for await (const file of parseDiffStream(lines())) {
+      expect(file.newPath).toBe('one.txt');
+      // Everything up to the next file header, and no further
+      expect(linesRead).toBe(7);
+      break;
+    }
+  });
 });
 
 describe('parseHunkHeader', () => {
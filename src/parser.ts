@@ -1,10 +1,37 @@
-import { DiffLine, FileDiff, Hunk, ParsedDiff, ParseOptions } from './types.js';
+import { createInterface } from 'readline';
+import { Readable } from 'stream';
+import {
+  BinaryPatch,
+  BinaryPatchBlock,
+  DiffLine,
+  FileDiff,
+  FileHeader,
+  Hunk,
+  LineRange,
+  ParseDiagnostic,
+  ParseDiagnosticCode,
+  ParsedDiff,
+  ParseOptions,
+  SubmoduleChange,
+} from './types.js';
+import { readQuotedPath, unquotePath } from './paths.js';
+import { assignStableIds } from './stable-ids.js';
+import { createParsedDiff } from './parsed-diff.js';
+import { recontextFile } from './context.js';
+
+export { createParsedDiff };
+
+/**
+ * Prefix of the file header in a git diff
+ * Followed by: a/path b/path, either side possibly C-style quoted
+ */
+const FILE_HEADER_PREFIX = 'diff --git ';
 
 /**
- * Regex to match the file header in a unified diff
- * Matches: diff --git a/path b/path
+ * Regex to match the file header of a combined diff, as shown for merges
+ * Matches: diff --cc path / diff --combined path
  */
-const FILE_HEADER_REGEX = /^diff --git a\/(.+) b\/(.+)$/;
+const COMBINED_HEADER_REGEX = /^diff --(?:cc|combined) (.+)$/;
 
 /**
  * Regex to match hunk headers
@@ -13,85 +40,374 @@ const FILE_HEADER_REGEX = /^diff --git a\/(.+) b\/(.+)$/;
  */
 const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@(.*)$/;
 
+/**
+ * Regex to match combined diff hunk headers, with one "-" range per parent
+ * Matches: @@@ -start,count -start,count +start,count @@@ optional context
+ */
+const COMBINED_HUNK_HEADER_REGEX = /^(@@@+) ((?:-\d+(?:,\d+)? )+)\+(\d+)(?:,(\d+))? \1(.*)$/;
+
+/**
+ * Regex to match the blob hashes on an "index" extended header line
+ * Matches: index abc123..def456 100644 (mode is optional)
+ */
+const INDEX_LINE_REGEX = /^index ([0-9a-f]+)\.\.([0-9a-f]+)(?: (\d+))?$/;
+
+/**
+ * Regex to match the "index" and "mode" lines of a combined diff
+ * Matches: index abc123,def456..0123abc / mode 100644,100644..100755
+ */
+const COMBINED_INDEX_LINE_REGEX = /^index ([0-9a-f]+(?:,[0-9a-f]+)+)\.\.([0-9a-f]+)$/;
+const COMBINED_MODE_LINE_REGEX = /^mode (\d+(?:,\d+)+)\.\.(\d+)$/;
+
+/**
+ * Regex to match the timestamp diff -u puts after a file name
+ * Matches: 2024-01-31 12:00:00.123456789 +0100 (fraction is optional)
+ */
+const TIMESTAMP_REGEX = /^(\d{4}-\d\d-\d\d) (\d\d:\d\d:\d\d)(?:\.\d+)? ([+-])(\d\d)(\d\d)$/;
+
+/**
+ * Regex to match the start of a block inside a "GIT binary patch" section
+ * Matches: literal 1234 / delta 56
+ */
+const BINARY_BLOCK_REGEX = /^(literal|delta) (\d+)$/;
+
+/**
+ * Regex to match the line git shows for a submodule's commit
+ * Matches: Subproject commit <40 or 64 hex digits>, with "-dirty" when its checkout has changes
+ */
+const SUBPROJECT_LINE_REGEX = /^Subproject commit ([0-9a-f]{40}|[0-9a-f]{64})(-dirty)?$/;
+
+/**
+ * File mode of a gitlink, the index entry for a submodule
+ */
+const GITLINK_MODE = '160000';
+
+/**
+ * Marker git emits after a line that has no trailing newline
+ */
+export const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
 /**
  * Parse a unified diff string into structured data
  */
 export function parseDiff(diffString: string, options: ParseOptions = {}): ParsedDiff {
   const lines = diffString.split('\n');
+  // The newline ending the last line doesn't start another one
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  if (!options.strict) {
+    return createParsedDiff(parseLines(lines, options));
+  }
+
+  const diagnostics: ParseDiagnostic[] = [];
+  const parsed = createParsedDiff(parseLines(lines, options, diagnostics));
+  parsed.diagnostics = diagnostics.sort((a, b) => a.line - b.line);
+  return parsed;
+}
+
+/**
+ * Parse a diff incrementally from a stream, yielding each file as soon as it is complete
+ *
+ * Accepts a Readable (split into lines here) or any async iterable of
+ * lines without their newlines, e.g. streamGit() from git.ts. Only one
+ * file's lines are held in memory at a time (for non-git diffs, as long
+ * as files are separated by "diff" or "Index:" lines, as diff -r, hg and
+ * svn do).
+ */
+export async function* parseDiffStream(
+  source: Readable | AsyncIterable<string>,
+  options: ParseOptions = {},
+): AsyncGenerator<FileDiff> {
+  const lines = source instanceof Readable ? createInterface({ input: source, crlfDelay: Infinity }) : source;
+  let buffered: string[] = [];
+
+  for await (const line of lines) {
+    if (isFileBoundary(line) && buffered.length > 0) {
+      yield* parseLines(buffered, options);
+      buffered = [];
+    }
+    buffered.push(line);
+  }
+
+  if (buffered.length > 0) {
+    yield* parseLines(buffered, options);
+  }
+}
+
+/**
+ * Check whether a line can only appear at the start of a file's diff
+ */
+function isFileBoundary(line: string): boolean {
+  return line.startsWith('diff ') || line.startsWith('Index: ');
+}
+
+/**
+ * Parse the lines of a diff into its files
+ * Problems are reported to `diagnostics` when given (strict mode).
+ */
+function parseLines(lines: string[], options: ParseOptions, diagnostics?: ParseDiagnostic[]): FileDiff[] {
+  const { strip = 1 } = options;
   const files: FileDiff[] = [];
   let currentFile: FileDiff | null = null;
+  let currentHeader: FileHeader | null = null;
   let currentHunk: Hunk | null = null;
   let hunkIndex = 0;
   let lineIndex = 0;
+  // Lines of the current hunk still to come, so "--- x" content isn't taken for a header
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  // Path from an "Index:" line, for the next non-git file
+  let indexPath: string | null = null;
+  // Where the current hunk started, and whether it already overran its counts
+  let hunkHeaderIndex = 0;
+  let overrunReported = false;
+
+  const report = (index: number, severity: ParseDiagnostic['severity'], code: ParseDiagnosticCode, message: string) => {
+    diagnostics?.push({
+      line: index + 1,
+      severity,
+      code,
+      message,
+      ...(currentHunk ? { hunkId: currentHunk.id } : {}),
+    });
+  };
+
+  // Save the current hunk, first checking that its body matched its header
+  const closeHunk = (endIndex: number) => {
+    if (!currentHunk || !currentFile) return;
+
+    if (diagnostics && !overrunReported) {
+      if (oldRemaining > 0 || newRemaining > 0) {
+        report(endIndex, 'error', 'truncated-hunk',
+          `Hunk ${currentHunk.header} ends with ${Math.max(oldRemaining, 0)} old and ${Math.max(newRemaining, 0)} new line(s) missing`);
+      } else {
+        const validation = validateHunk(currentHunk);
+        if (!validation.valid) {
+          report(hunkHeaderIndex, 'error', 'count-mismatch', `Hunk ${currentHunk.header}: ${validation.error}`);
+        }
+      }
+    }
+
+    currentFile.hunks.push(currentHunk);
+    currentHunk = null;
+  };
 
   while (lineIndex < lines.length) {
     const line = lines[lineIndex];
+    const betweenHunks = oldRemaining <= 0 && newRemaining <= 0 && !currentFile?.isCombined;
+
+    // Non-git diffs (diff -u, hg, svn) may name the next file on an "Index:" line
+    if (betweenHunks && line.startsWith('Index: ')) {
+      indexPath = line.slice('Index: '.length).trim();
+      lineIndex++;
+      continue;
+    }
+
+    // Non-git diffs start each file with just a "---"/"+++" pair
+    if (betweenHunks && line.startsWith('--- ') && lines[lineIndex + 1]?.startsWith('+++ ')) {
+      if (currentFile) {
+        closeHunk(lineIndex);
+        files.push(currentFile);
+      }
+
+      currentFile = createPlainFile(line.slice(4), lines[lineIndex + 1].slice(4), indexPath, strip);
+      currentHeader = toFileHeader(currentFile);
+      indexPath = null;
+      hunkIndex = 0;
+      lineIndex += 2;
+      continue;
+    }
 
     // Check for file header
-    const fileMatch = line.match(FILE_HEADER_REGEX);
+    const fileMatch = parseFileHeaderLine(line);
     if (fileMatch) {
       // Save previous file if exists
       if (currentFile) {
-        if (currentHunk) {
-          currentFile.hunks.push(currentHunk);
-          currentHunk = null;
-        }
+        closeHunk(lineIndex);
         files.push(currentFile);
       }
 
       // Parse file metadata
-      const [, oldPath, newPath] = fileMatch;
+      const { oldPath, newPath, isCombined } = fileMatch;
       currentFile = {
         oldPath,
         newPath,
         isNew: false,
         isDeleted: false,
         isRenamed: oldPath !== newPath,
+        ...(isCombined ? { isCombined: true } : {}),
         hunks: [],
       };
       hunkIndex = 0;
+      oldRemaining = 0;
+      newRemaining = 0;
 
       // Look ahead for file mode indicators
+      let binaryHeader: string | null = null;
       lineIndex++;
       while (lineIndex < lines.length) {
         const metaLine = lines[lineIndex];
-        if (metaLine.startsWith('new file mode')) {
+        const indexMatch = metaLine.match(INDEX_LINE_REGEX);
+        const combinedIndexMatch = metaLine.match(COMBINED_INDEX_LINE_REGEX);
+        const combinedModeMatch = metaLine.match(COMBINED_MODE_LINE_REGEX);
+        if (metaLine.startsWith('new file mode ')) {
           currentFile.isNew = true;
+          currentFile.newMode = metaLine.slice('new file mode '.length);
           lineIndex++;
-        } else if (metaLine.startsWith('deleted file mode')) {
+        } else if (metaLine.startsWith('deleted file mode ')) {
+          const modes = metaLine.slice('deleted file mode '.length);
           currentFile.isDeleted = true;
+          if (currentFile.isCombined) {
+            currentFile.parentModes = modes.split(',');
+          } else {
+            currentFile.oldMode = modes;
+          }
+          lineIndex++;
+        } else if (metaLine.startsWith('old mode ')) {
+          currentFile.oldMode = metaLine.slice('old mode '.length);
+          lineIndex++;
+        } else if (metaLine.startsWith('new mode ')) {
+          currentFile.newMode = metaLine.slice('new mode '.length);
+          lineIndex++;
+        } else if (indexMatch) {
+          currentFile.oldHash = indexMatch[1];
+          currentFile.newHash = indexMatch[2];
+          // The mode is only given here when it did not change
+          if (indexMatch[3]) {
+            currentFile.oldMode = indexMatch[3];
+            currentFile.newMode = indexMatch[3];
+          }
+          lineIndex++;
+        } else if (combinedIndexMatch) {
+          currentFile.parentHashes = combinedIndexMatch[1].split(',');
+          currentFile.newHash = combinedIndexMatch[2];
+          lineIndex++;
+        } else if (combinedModeMatch) {
+          currentFile.parentModes = combinedModeMatch[1].split(',');
+          currentFile.newMode = combinedModeMatch[2];
           lineIndex++;
-        } else if (
-          metaLine.startsWith('index ') ||
-          metaLine.startsWith('--- ') ||
-          metaLine.startsWith('+++ ') ||
-          metaLine.startsWith('old mode') ||
-          metaLine.startsWith('new mode') ||
-          metaLine.startsWith('similarity index') ||
-          metaLine.startsWith('rename from') ||
-          metaLine.startsWith('rename to') ||
-          metaLine.startsWith('Binary files')
-        ) {
+        } else if (metaLine.startsWith('Binary files')) {
+          currentFile.isBinary = true;
+          binaryHeader = metaLine;
+          lineIndex++;
+        } else if (metaLine === 'GIT binary patch') {
+          const { patch, nextIndex } = parseBinaryPatch(lines, lineIndex + 1);
+          currentFile.isBinary = true;
+          currentFile.binary = patch;
+          binaryHeader = metaLine;
+          lineIndex = nextIndex;
+        } else if (metaLine.startsWith('similarity index ')) {
+          currentFile.similarity = parseInt(metaLine.slice('similarity index '.length), 10);
+          lineIndex++;
+        } else if (metaLine.startsWith('rename from ')) {
+          currentFile.oldPath = unquotePath(metaLine.slice('rename from '.length));
+          currentFile.isRenamed = true;
+          lineIndex++;
+        } else if (metaLine.startsWith('rename to ')) {
+          currentFile.newPath = unquotePath(metaLine.slice('rename to '.length));
+          currentFile.isRenamed = true;
+          lineIndex++;
+        } else if (metaLine.startsWith('copy from ')) {
+          currentFile.oldPath = unquotePath(metaLine.slice('copy from '.length));
+          currentFile.isCopied = true;
+          currentFile.isRenamed = false;
+          lineIndex++;
+        } else if (metaLine.startsWith('copy to ')) {
+          currentFile.newPath = unquotePath(metaLine.slice('copy to '.length));
+          currentFile.isCopied = true;
+          currentFile.isRenamed = false;
+          lineIndex++;
+        } else if (metaLine.startsWith('--- ')) {
+          // Unlike the "diff --git" line these names are never ambiguous
+          currentFile.oldPath = parsePatchPath(metaLine.slice(4), 'a/') ?? currentFile.oldPath;
+          lineIndex++;
+        } else if (metaLine.startsWith('+++ ')) {
+          currentFile.newPath = parsePatchPath(metaLine.slice(4), 'b/') ?? currentFile.newPath;
+          lineIndex++;
+        } else if (metaLine.startsWith('dissimilarity index')) {
           lineIndex++;
         } else {
           break;
         }
       }
+
+      if (currentFile.isNew) {
+        currentFile.oldPath = currentFile.newPath;
+      } else if (currentFile.isDeleted) {
+        currentFile.newPath = currentFile.oldPath;
+      }
+      currentFile.isRenamed = !currentFile.isCopied && currentFile.oldPath !== currentFile.newPath;
+      currentHeader = toFileHeader(currentFile);
+
+      // The rename/copy itself is a unit, so it can be committed apart from any edits
+      if (currentFile.isRenamed || currentFile.isCopied) {
+        currentFile.hunks.push(createRenameHunk(currentHeader));
+      }
+
+      // A mode change is its own unit, stageable apart from the content
+      if (currentFile.oldMode && currentFile.newMode && currentFile.oldMode !== currentFile.newMode) {
+        currentFile.hunks.push(createModeHunk(currentHeader));
+      }
+
+      // A binary file becomes a single whole-file unit
+      if (binaryHeader) {
+        currentFile.hunks.push(createBinaryHunk(currentHeader, binaryHeader));
+        hunkIndex++;
+      }
+      continue;
+    }
+
+    // Check for combined diff hunk header
+    const combinedHunkMatch = currentFile?.isCombined ? line.match(COMBINED_HUNK_HEADER_REGEX) : null;
+    if (combinedHunkMatch && currentFile) {
+      closeHunk(lineIndex);
+
+      const [, , parentSpecs, newStart, newCount, context] = combinedHunkMatch;
+      const parentRanges = parentSpecs.trim().split(' ').map(parseRange);
+      currentHunk = {
+        id: `${currentFile.newPath}:${hunkIndex}`,
+        file: currentFile.newPath,
+        index: hunkIndex,
+        header: line,
+        oldStart: parentRanges[0].start,
+        oldCount: parentRanges[0].count,
+        newStart: parseInt(newStart, 10),
+        newCount: newCount ? parseInt(newCount, 10) : 1,
+        lines: [],
+        context: context.trim() || undefined,
+        fileHeader: currentHeader ?? undefined,
+        parentRanges,
+      };
+      oldRemaining = 0;
+      newRemaining = 0;
+      hunkHeaderIndex = lineIndex;
+      overrunReported = false;
+      hunkIndex++;
+      lineIndex++;
       continue;
     }
 
     // Check for hunk header
     const hunkMatch = line.match(HUNK_HEADER_REGEX);
+    if (hunkMatch && !currentFile) {
+      report(lineIndex, 'error', 'orphan-hunk', `Hunk ${line} does not follow a file header`);
+    } else if (!hunkMatch && !combinedHunkMatch && line.startsWith('@@')) {
+      // Reported once: don't go on to read it as a hunk line with an unknown prefix
+      report(lineIndex, 'error', 'invalid-hunk-header', `Malformed hunk header: ${line}`);
+      lineIndex++;
+      continue;
+    }
     if (hunkMatch && currentFile) {
       // Save previous hunk if exists
-      if (currentHunk) {
-        currentFile.hunks.push(currentHunk);
-      }
+      closeHunk(lineIndex);
 
       const [, oldStart, oldCount, newStart, newCount, context] = hunkMatch;
       currentHunk = {
         id: `${currentFile.newPath}:${hunkIndex}`,
         file: currentFile.newPath,
+        ...(currentFile.oldPath !== currentFile.newPath ? { oldFile: currentFile.oldPath } : {}),
         index: hunkIndex,
         header: line,
         oldStart: parseInt(oldStart, 10),
@@ -100,64 +416,393 @@ export function parseDiff(diffString: string, options: ParseOptions = {}): Parse
         newCount: newCount ? parseInt(newCount, 10) : 1,
         lines: [],
         context: context.trim() || undefined,
+        fileHeader: currentHeader ?? undefined,
       };
+      oldRemaining = currentHunk.oldCount;
+      newRemaining = currentHunk.newCount;
+      hunkHeaderIndex = lineIndex;
+      overrunReported = false;
       hunkIndex++;
       lineIndex++;
       continue;
     }
 
+    // Combined diff lines have one prefix column per parent
+    if (currentHunk?.parentRanges && line.length > 0 && line[0] !== '\\') {
+      const columns = line.slice(0, currentHunk.parentRanges.length);
+      if (!/^[ +-]*$/.test(columns)) {
+        report(lineIndex, 'error', 'unknown-prefix', `Unknown line prefix "${columns}" in combined hunk`);
+      }
+      currentHunk.lines.push(parseCombinedLine(line, currentHunk.parentRanges.length));
+      lineIndex++;
+      continue;
+    }
+
+    // Mailers strip the trailing space off empty context lines; like git apply,
+    // take an empty line the hunk still has room for as one
+    if (currentHunk && line.length === 0 && oldRemaining > 0 && newRemaining > 0) {
+      currentHunk.lines.push({ type: 'context', content: '' });
+      oldRemaining--;
+      newRemaining--;
+      lineIndex++;
+      continue;
+    }
+
+    const inHunkBody = currentHunk !== null && (oldRemaining > 0 || newRemaining > 0);
+    if (inHunkBody && line.length === 0) {
+      report(lineIndex, 'error', 'unknown-prefix', 'Empty line inside a hunk that has no context lines left');
+    }
+
     // Parse hunk content lines
     if (currentHunk && line.length > 0) {
       const prefix = line[0];
       const content = line.slice(1);
 
+      // Strict mode: a line the header's counts have no room for
+      const overrun = (prefix === ' ' && (oldRemaining <= 0 || newRemaining <= 0)) ||
+        (prefix === '-' && oldRemaining <= 0) ||
+        (prefix === '+' && newRemaining <= 0);
+      if (overrun && !overrunReported) {
+        report(lineIndex, 'error', 'count-mismatch', `Hunk ${currentHunk.header} has more lines than its header says`);
+        overrunReported = true;
+      }
+
       if (prefix === ' ') {
         currentHunk.lines.push({ type: 'context', content });
+        oldRemaining--;
+        newRemaining--;
       } else if (prefix === '-') {
         currentHunk.lines.push({ type: 'remove', content });
+        oldRemaining--;
       } else if (prefix === '+') {
         currentHunk.lines.push({ type: 'add', content });
+        newRemaining--;
+      } else if (prefix === '\\') {
+        // "\ No newline at end of file" applies to the line just before it
+        const previous = currentHunk.lines[currentHunk.lines.length - 1];
+        if (previous) {
+          previous.noNewlineAtEof = true;
+        } else {
+          report(lineIndex, 'warning', 'misplaced-eof-marker', `"${line}" does not follow a line`);
+        }
+      } else if (inHunkBody) {
+        report(lineIndex, 'error', 'unknown-prefix', `Unknown line prefix "${prefix}" inside hunk`);
       }
-      // Ignore other lines (like "\ No newline at end of file")
     }
 
     lineIndex++;
   }
 
   // Don't forget the last hunk and file
-  if (currentHunk && currentFile) {
-    currentFile.hunks.push(currentHunk);
-  }
+  closeHunk(lines.length);
   if (currentFile) {
     files.push(currentFile);
   }
 
-  return createParsedDiff(files);
+  for (const file of files) {
+    markSubmodule(file);
+    assignStableIds(file.hunks);
+  }
+
+  if (options.contextLines !== undefined) {
+    const { contextLines, contentProvider } = options;
+    return files.map(file => recontextFile(file, contextLines, contentProvider));
+  }
+
+  return files;
 }
 
 /**
- * Create a ParsedDiff object with helper methods
+ * Create a file from the "---" and "+++" names of a non-git diff
+ *
+ * The names may carry a timestamp or revision after a tab, and lose `strip`
+ * leading directories as with `patch -p`; an "Index:" line names the file
+ * as is. Non-git diffs can't express renames, so when the two names differ
+ * (foo.c.orig vs foo.c) the file is whichever has the fewest directories,
+ * then the shortest name, like `patch` picks when neither file exists.
  */
-function createParsedDiff(files: FileDiff[]): ParsedDiff {
+function createPlainFile(oldSpec: string, newSpec: string, indexPath: string | null, strip: number): FileDiff {
+  const oldName = parsePlainPath(oldSpec, strip);
+  const newName = parsePlainPath(newSpec, strip);
+
+  let path = indexPath ?? oldName ?? newName ?? '';
+  if (!indexPath && oldName !== null && newName !== null) {
+    const rank = (name: string) => [name.split('/').length, name.slice(name.lastIndexOf('/') + 1).length, name.length];
+    const [oldRank, newRank] = [rank(oldName), rank(newName)];
+    const firstDifference = oldRank.findIndex((value, i) => value !== newRank[i]);
+    path = firstDifference !== -1 && newRank[firstDifference] < oldRank[firstDifference] ? newName : oldName;
+  }
+
   return {
-    files,
+    oldPath: path,
+    newPath: path,
+    isNew: oldName === null,
+    isDeleted: newName === null,
+    isRenamed: false,
+    hunks: [],
+  };
+}
 
-    getAllHunks(): Hunk[] {
-      return files.flatMap(f => f.hunks);
-    },
+/**
+ * Read the name from a "---"/"+++" line of a non-git diff (without the marker)
+ * Returns null for a missing file: /dev/null, svn's "(nonexistent)", or the
+ * epoch timestamp `diff -N` gives absent files.
+ */
+function parsePlainPath(spec: string, strip: number): string | null {
+  const quoted = readQuotedPath(spec);
+  const name = quoted ? quoted.path : spec.split('\t')[0];
+  const label = quoted ? spec.slice(quoted.length) : spec.slice(name.length);
+  if (name === '/dev/null' || label.includes('(nonexistent)') || isEpochTimestamp(label.trim())) return null;
 
-    getHunk(id: string): Hunk | undefined {
-      for (const file of files) {
-        const hunk = file.hunks.find((h: Hunk) => h.id === id);
-        if (hunk) return hunk;
-      }
-      return undefined;
-    },
+  // Always keep the file name itself
+  const parts = name.split('/');
+  return parts.slice(Math.min(strip, parts.length - 1)).join('/');
+}
+
+/**
+ * Check whether a diff -u timestamp (e.g. "1970-01-01 00:00:00.000000000 +0000") is the Unix epoch
+ */
+function isEpochTimestamp(label: string): boolean {
+  const match = label.match(TIMESTAMP_REGEX);
+  if (!match) return false;
 
-    getFileHunks(filePath: string): Hunk[] {
-      const file = files.find(f => f.newPath === filePath || f.oldPath === filePath);
-      return file?.hunks ?? [];
-    },
+  const [, date, time, sign, zoneHours, zoneMinutes] = match;
+  const offsetMs = (sign === '-' ? -1 : 1) * (parseInt(zoneHours, 10) * 60 + parseInt(zoneMinutes, 10)) * 60_000;
+  return Date.parse(`${date}T${time}Z`) - offsetMs === 0;
+}
+
+/**
+ * Recognize a "diff --git" or "diff --cc" line and read its paths
+ */
+function parseFileHeaderLine(line: string): { oldPath: string; newPath: string; isCombined: boolean } | null {
+  if (line.startsWith(FILE_HEADER_PREFIX)) {
+    const paths = parseFileHeaderPaths(line.slice(FILE_HEADER_PREFIX.length));
+    return paths && { ...paths, isCombined: false };
+  }
+
+  const combinedMatch = line.match(COMBINED_HEADER_REGEX);
+  if (combinedMatch) {
+    const path = unquotePath(combinedMatch[1]);
+    return { oldPath: path, newPath: path, isCombined: true };
+  }
+  return null;
+}
+
+/**
+ * Parse a "-start,count" range of a combined hunk header (count defaults to 1)
+ */
+function parseRange(spec: string): LineRange {
+  const [start, count] = spec.slice(1).split(',');
+  return { start: parseInt(start, 10), count: count !== undefined ? parseInt(count, 10) : 1 };
+}
+
+/**
+ * Parse a line of a combined diff hunk.
+ *
+ * Column i compares the result with parent i: "+" means the line is not in
+ * that parent, "-" that it is in that parent but not in the result. A line
+ * with any "-" column is absent from the result, and only the parents
+ * marked "-" have it; otherwise the parents marked " " have it.
+ */
+function parseCombinedLine(line: string, parentCount: number): DiffLine {
+  const columns = line.slice(0, parentCount);
+  const content = line.slice(parentCount);
+
+  if (columns.includes('-')) {
+    return { type: 'remove', content, inParents: Array.from(columns, c => c === '-') };
+  }
+  return {
+    type: columns.includes('+') ? 'add' : 'context',
+    content,
+    inParents: Array.from(columns, c => c === ' '),
+  };
+}
+
+/**
+ * Split the "a/old b/new" part of a "diff --git" line into its two paths.
+ *
+ * Quoted names are unambiguous. Unquoted names may themselves contain
+ * " b/", so they are only split reliably when both sides are the same
+ * path; otherwise the split is a best guess that the "---"/"+++" and
+ * "rename from"/"rename to" lines correct afterwards.
+ */
+function parseFileHeaderPaths(spec: string): { oldPath: string; newPath: string } | null {
+  let oldName: string;
+  let newName: string;
+
+  if (spec.startsWith('"')) {
+    const quoted = readQuotedPath(spec);
+    if (!quoted || spec[quoted.length] !== ' ') return null;
+    oldName = quoted.path;
+    newName = unquotePath(spec.slice(quoted.length + 1));
+  } else if (spec.endsWith('"') && spec.lastIndexOf(' "') !== -1) {
+    // An unquoted path never contains a double quote, so ' "' starts the new name
+    const separator = spec.lastIndexOf(' "');
+    oldName = spec.slice(0, separator);
+    newName = unquotePath(spec.slice(separator + 1));
+  } else {
+    const nameLength = (spec.length - 3) / 2;
+    const sameName = Number.isInteger(nameLength) &&
+      spec.slice(nameLength, nameLength + 3) === ' b/' &&
+      spec.slice(2, nameLength) === spec.slice(nameLength + 3 + 2);
+    if (sameName) {
+      oldName = spec.slice(0, nameLength);
+      newName = spec.slice(nameLength + 1);
+    } else {
+      const separator = spec.lastIndexOf(' b/');
+      if (separator === -1) return null;
+      oldName = spec.slice(0, separator);
+      newName = spec.slice(separator + 1);
+    }
+  }
+
+  if (!oldName.startsWith('a/') || !newName.startsWith('b/')) return null;
+  return { oldPath: oldName.slice(2), newPath: newName.slice(2) };
+}
+
+/**
+ * Read the path from a "---" or "+++" line (without the marker)
+ * Returns null for /dev/null. git appends a tab to names containing spaces.
+ */
+function parsePatchPath(spec: string, prefix: 'a/' | 'b/'): string | null {
+  const name = spec.startsWith('"') ? unquotePath(spec) : spec.split('\t')[0];
+  if (name === '/dev/null') return null;
+  return name.startsWith(prefix) ? name.slice(prefix.length) : name;
+}
+
+/**
+ * Copy the file-level metadata of a FileDiff (everything but its hunks)
+ */
+function toFileHeader(file: FileDiff): FileHeader {
+  const { hunks: _hunks, ...header } = file;
+  return header;
+}
+
+/**
+ * Parse the literal/delta blocks following a "GIT binary patch" line.
+ * Each block is a "literal N" or "delta N" line, base85 data lines, and a
+ * terminating blank line; the first block is the forward change, the
+ * optional second one the reverse.
+ */
+function parseBinaryPatch(lines: string[], startIndex: number): { patch?: BinaryPatch; nextIndex: number } {
+  const blocks: BinaryPatchBlock[] = [];
+  let lineIndex = startIndex;
+
+  while (lineIndex < lines.length) {
+    const blockMatch = lines[lineIndex].match(BINARY_BLOCK_REGEX);
+    if (!blockMatch) break;
+
+    const block: BinaryPatchBlock = {
+      method: blockMatch[1] as BinaryPatchBlock['method'],
+      size: parseInt(blockMatch[2], 10),
+      data: [],
+    };
+    lineIndex++;
+
+    // Base85 data never contains spaces, so anything else ends the block
+    while (lineIndex < lines.length && lines[lineIndex] !== '' && !lines[lineIndex].includes(' ')) {
+      block.data.push(lines[lineIndex]);
+      lineIndex++;
+    }
+    if (lines[lineIndex] === '') {
+      lineIndex++;
+    }
+
+    blocks.push(block);
+  }
+
+  if (blocks.length === 0) {
+    return { nextIndex: lineIndex };
+  }
+  return { patch: { forward: blocks[0], reverse: blocks[1] }, nextIndex: lineIndex };
+}
+
+/**
+ * Create the whole-file unit that stands for a binary file's change
+ */
+function createBinaryHunk(header: FileHeader, rawHeader: string): Hunk {
+  return {
+    id: `${header.newPath}:0`,
+    file: header.newPath,
+    ...(header.oldPath !== header.newPath ? { oldFile: header.oldPath } : {}),
+    index: 0,
+    header: rawHeader,
+    oldStart: 0,
+    oldCount: 0,
+    newStart: 0,
+    newCount: 0,
+    lines: [],
+    kind: 'binary',
+    fileHeader: header,
+  };
+}
+
+/**
+ * Turn a submodule's "Subproject commit" hunk into a submodule unit
+ * and record the commits it moves between
+ */
+function markSubmodule(file: FileDiff): void {
+  if (file.isCombined || (file.oldMode !== GITLINK_MODE && file.newMode !== GITLINK_MODE)) return;
+
+  const hunk = file.hunks.find(h => !h.kind);
+  if (!hunk) return;
+
+  const submodule: SubmoduleChange = {};
+  for (const line of hunk.lines) {
+    const match = line.content.match(SUBPROJECT_LINE_REGEX);
+    if (!match) return;
+    if (line.type === 'remove') {
+      submodule.oldCommit = match[1];
+    } else if (line.type === 'add') {
+      submodule.newCommit = match[1];
+      if (match[2]) submodule.dirty = true;
+    }
+  }
+
+  file.submodule = submodule;
+  // The header snapshot is shared by the file's hunks
+  if (hunk.fileHeader) hunk.fileHeader.submodule = submodule;
+  hunk.kind = 'submodule';
+}
+
+/**
+ * Create the unit that stands for a pure rename or copy of a file
+ */
+function createRenameHunk(header: FileHeader): Hunk {
+  const kind = header.isCopied ? 'copy' : 'rename';
+  return {
+    id: `${header.newPath}:${kind}`,
+    file: header.newPath,
+    oldFile: header.oldPath,
+    index: -1,
+    header: `${kind} ${header.oldPath} => ${header.newPath}`,
+    oldStart: 0,
+    oldCount: 0,
+    newStart: 0,
+    newCount: 0,
+    lines: [],
+    kind,
+    fileHeader: header,
+  };
+}
+
+/**
+ * Create the unit that stands for a file's mode change
+ */
+function createModeHunk(header: FileHeader): Hunk {
+  return {
+    id: `${header.newPath}:mode`,
+    file: header.newPath,
+    ...(header.oldPath !== header.newPath ? { oldFile: header.oldPath } : {}),
+    index: -1,
+    header: `mode change ${header.oldMode} => ${header.newMode}`,
+    oldStart: 0,
+    oldCount: 0,
+    newStart: 0,
+    newCount: 0,
+    lines: [],
+    kind: 'mode',
+    fileHeader: header,
   };
 }
 
@@ -188,6 +833,10 @@ export function parseHunkHeader(header: string): {
  * Validate that a hunk's line counts match its header
  */
 export function validateHunk(hunk: Hunk): { valid: boolean; error?: string } {
+  if (hunk.parentRanges) {
+    return validateCombinedHunk(hunk, hunk.parentRanges);
+  }
+
   const contextCount = hunk.lines.filter((l: DiffLine) => l.type === 'context').length;
   const removeCount = hunk.lines.filter((l: DiffLine) => l.type === 'remove').length;
   const addCount = hunk.lines.filter((l: DiffLine) => l.type === 'add').length;
@@ -211,3 +860,28 @@ export function validateHunk(hunk: Hunk): { valid: boolean; error?: string } {
 
   return { valid: true };
 }
+
+/**
+ * Validate a combined diff hunk's line counts against each parent's range
+ */
+function validateCombinedHunk(hunk: Hunk, parentRanges: LineRange[]): { valid: boolean; error?: string } {
+  for (const [parent, range] of parentRanges.entries()) {
+    const actual = hunk.lines.filter(l => l.inParents?.[parent]).length;
+    if (actual !== range.count) {
+      return {
+        valid: false,
+        error: `Parent ${parent + 1} count mismatch: header says ${range.count}, actual is ${actual}`,
+      };
+    }
+  }
+
+  const expectedNewCount = hunk.lines.filter(l => l.type !== 'remove').length;
+  if (expectedNewCount !== hunk.newCount) {
+    return {
+      valid: false,
+      error: `New count mismatch: header says ${hunk.newCount}, actual is ${expectedNewCount}`,
+    };
+  }
+
+  return { valid: true };
+}
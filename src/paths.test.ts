@@ -0,0 +1,45 @@
+import { needsQuoting, quotePath, readQuotedPath, unquotePath } from '../src/paths';
+
+describe('quotePath', () => {
+  it('should leave plain paths alone, including spaces', () => {
+    expect(quotePath('src/app.ts')).toBe('src/app.ts');
+    expect(quotePath('my file.txt')).toBe('my file.txt');
+    expect(needsQuoting('my file.txt')).toBe(false);
+  });
+
+  it('should octal-escape the UTF-8 bytes of non-ASCII characters', () => {
+    expect(quotePath('café.txt')).toBe('"caf\\303\\251.txt"');
+  });
+
+  it('should use named escapes for quotes, backslashes and control characters', () => {
+    expect(quotePath('q"t.txt')).toBe('"q\\"t.txt"');
+    expect(quotePath('a\\b')).toBe('"a\\\\b"');
+    expect(quotePath('tab\there')).toBe('"tab\\there"');
+    expect(quotePath('bell\x07')).toBe('"bell\\a"');
+    expect(quotePath('esc\x1b')).toBe('"esc\\033"');
+  });
+});
+
+describe('readQuotedPath', () => {
+  it('should report how much of the text the quoted path took up', () => {
+    expect(readQuotedPath('"a/caf\\303\\251.txt" "b/x"')).toEqual({ path: 'a/café.txt', length: 19 });
+  });
+
+  it('should reject unquoted and malformed text', () => {
+    expect(readQuotedPath('a/file.txt')).toBeNull();
+    expect(readQuotedPath('"unterminated')).toBeNull();
+    expect(readQuotedPath('"bad\\qescape"')).toBeNull();
+  });
+});
+
+describe('unquotePath', () => {
+  it('should round-trip quoted paths', () => {
+    for (const path of ['café.txt', 'q"t.txt', 'a\\b', 'new\nline', '日本語/ファイル.md']) {
+      expect(unquotePath(quotePath(path))).toBe(path);
+    }
+  });
+
+  it('should return unquoted text unchanged', () => {
+    expect(unquotePath('my file.txt')).toBe('my file.txt');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Path quoting as git does it in diff headers
+ *
+ * With core.quotePath (the default) git writes paths containing quotes,
+ * backslashes, control characters or non-ASCII bytes C-style quoted, with
+ * octal escapes for the UTF-8 bytes: "a/caf\303\251.txt". Everything else,
+ * including paths with spaces, is written verbatim.
+ */
+
+/** Named C escapes git uses, by byte value */
+const NAMED_ESCAPES = new Map<number, string>([
+  [7, 'a'],
+  [8, 'b'],
+  [9, 't'],
+  [10, 'n'],
+  [11, 'v'],
+  [12, 'f'],
+  [13, 'r'],
+  [34, '"'],
+  [92, '\\'],
+]);
+
+/** Byte values of the named escapes, by escape letter */
+const ESCAPE_BYTES = new Map<string, number>(Array.from(NAMED_ESCAPES, ([byte, letter]) => [letter, byte]));
+
+/**
+ * Check whether git would quote this path
+ */
+export function needsQuoting(path: string): boolean {
+  return /["\\\x00-\x1f\x7f]|[^\x00-\x7f]/.test(path);
+}
+
+/**
+ * Quote a path the way git does, or return it unchanged if it needs no quoting
+ */
+export function quotePath(path: string): string {
+  if (!needsQuoting(path)) return path;
+
+  let quoted = '"';
+  for (const byte of Buffer.from(path, 'utf-8')) {
+    const named = NAMED_ESCAPES.get(byte);
+    if (named) {
+      quoted += `\\${named}`;
+    } else if (byte < 0x20 || byte >= 0x7f) {
+      quoted += `\\${byte.toString(8).padStart(3, '0')}`;
+    } else {
+      quoted += String.fromCharCode(byte);
+    }
+  }
+  return quoted + '"';
+}
+
+/**
+ * Read a C-style quoted path from the start of `text`
+ *
+ * Returns the decoded path and how many characters of `text` it took up
+ * (including both quotes), or null if `text` does not start with a
+ * well-formed quoted string.
+ */
+export function readQuotedPath(text: string): { path: string; length: number } | null {
+  if (!text.startsWith('"')) return null;
+
+  const bytes: number[] = [];
+  let i = 1;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"') {
+      return { path: Buffer.from(bytes).toString('utf-8'), length: i + 1 };
+    }
+
+    if (char === '\\') {
+      const next = text[i + 1];
+      const octal = text.slice(i + 1, i + 4);
+      if (/^[0-7]{3}$/.test(octal)) {
+        bytes.push(parseInt(octal, 8));
+        i += 4;
+      } else if (next !== undefined && ESCAPE_BYTES.has(next)) {
+        bytes.push(ESCAPE_BYTES.get(next)!);
+        i += 2;
+      } else {
+        return null;
+      }
+      continue;
+    }
+
+    const codePoint = String.fromCodePoint(text.codePointAt(i)!);
+    bytes.push(...Buffer.from(codePoint, 'utf-8'));
+    i += codePoint.length;
+  }
+
+  return null;
+}
+
+/**
+ * Decode a path that may or may not be quoted
+ */
+export function unquotePath(text: string): string {
+  return readQuotedPath(text)?.path ?? text;
+}
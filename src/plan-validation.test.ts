@@ -0,0 +1,141 @@
+import { parseDiff } from '../src/parser';
+import { validatePlan } from '../src/plan-validation';
+
+const diff = parseDiff(`diff --git a/app.js b/app.js
+--- a/app.js
++++ b/app.js
+@@ -1,4 +1,5 @@
+ const a = 1;
+-const b = 2;
++const b = 3;
++const c = 4;
+ const d = 5;
+ const e = 6;
+@@ -20,3 +21,4 @@ function main() {
+   start();
++  log();
+   stop();
+ }
+diff --git a/run.sh b/run.sh
+old mode 100644
+new mode 100755
+`);
+
+describe('validatePlan', () => {
+  it('should accept a plan that takes everything once, in an order that applies', () => {
+    const result = validatePlan(diff, [
+      { label: 'logging', hunkIds: ['app.js:1', 'run.sh:mode'] },
+      { label: 'constants', hunkIds: ['app.js:0'] },
+    ]);
+    expect(result).toEqual({ valid: true, diagnostics: [] });
+  });
+
+  it('should report IDs and lines that name nothing', () => {
+    const result = validatePlan(diff, [
+      { label: 'one', hunkIds: ['app.js:7', 'app.js:0:0', 'app.js:0', 'app.js:1', 'run.sh:mode'] },
+      { commitMessage: 'two', selections: [{ hunkId: 'app.js:1', mode: 'partial', includeAdditions: [0] }] },
+    ]);
+    expect(result.valid).toBe(false);
+    expect(result.diagnostics).toEqual([
+      { code: 'unknown-hunk', message: 'Commit 1: no hunk has the ID app.js:7', commit: 0, hunkId: 'app.js:7' },
+      {
+        code: 'unknown-line',
+        message: 'Commit 1: hunk app.js:0 has no changed line 0 (it has lines 0-5)',
+        commit: 0,
+        hunkId: 'app.js:0',
+        lineIndices: [0],
+      },
+      {
+        code: 'unknown-line',
+        message: 'Commit 2: hunk app.js:1 has no changed line 0 (it has lines 0-3)',
+        commit: 1,
+        hunkId: 'app.js:1',
+        lineIndices: [0],
+      },
+    ]);
+  });
+
+  it('should accept edits of context lines', () => {
+    // parseStagingPlanDocument records an "[E]" line with the additions, even a context one
+    const result = validatePlan(diff, [
+      { label: 'constants', hunkIds: ['app.js:0', 'run.sh:mode'] },
+      {
+        commitMessage: 'logging',
+        selections: [{
+          hunkId: 'app.js:1',
+          mode: 'partial',
+          includeAdditions: [0, 1],
+          lineEdits: [{ lineIndex: 0, newContent: '  begin();' }],
+        }],
+      },
+    ]);
+    expect(result).toEqual({ valid: true, diagnostics: [] });
+  });
+
+  it('should report changes taken by no commit or by several', () => {
+    // A line-level ID takes the hunk's removals too, so both commits take line 1
+    const result = validatePlan(diff, [
+      { label: 'b', hunkIds: ['app.js:0:2'] },
+      { label: 'c', hunkIds: ['app.js:0:3'] },
+    ]);
+    const coverage = result.diagnostics.filter(d => d.code !== 'does-not-apply');
+    expect(coverage).toEqual([
+      {
+        code: 'double-assigned',
+        message: 'Line 1 of hunk app.js:0 is in commits 1 and 2',
+        hunkId: 'app.js:0',
+        lineIndices: [1],
+        commits: [0, 1],
+      },
+      { code: 'unassigned', message: 'Hunk app.js:1 is not in any commit', hunkId: 'app.js:1' },
+      { code: 'unassigned', message: 'Hunk run.sh:mode is not in any commit', hunkId: 'run.sh:mode' },
+    ]);
+  });
+
+  it('should report a commit that no longer applies after the ones before it', () => {
+    const result = validatePlan(diff, [
+      { commitMessage: 'c only', selections: [{ hunkId: 'app.js:0', mode: 'partial', includeAdditions: [3] }] },
+      { commitMessage: 'the rest', selections: [{ hunkId: 'app.js:0', mode: 'partial', includeAdditions: [2], includeRemovals: [1] }] },
+    ]);
+    expect(result.diagnostics[0]).toEqual({
+      code: 'does-not-apply',
+      message: expect.stringMatching(/^Commit 2 \("the rest"\): hunk app\.js:0 won't apply on top of the commits before it/),
+      commit: 1,
+      hunkId: 'app.js:0',
+    });
+  });
+
+  it('should report moved code split between commits when asked to', () => {
+    const moved = parseDiff(`diff --git a/a.js b/a.js
+--- a/a.js
++++ b/a.js
+@@ -1,3 +1,1 @@
+-const retries = settings.get('network.retries');
+-const timeout = settings.get('network.timeout');
+ start();
+diff --git a/b.js b/b.js
+--- a/b.js
++++ b/b.js
+@@ -1,1 +1,3 @@
+ stop();
++const retries = settings.get('network.retries');
++const timeout = settings.get('network.timeout');
+`);
+    const commits = [
+      { label: 'drop', hunkIds: ['a.js:0'] },
+      { label: 'add', hunkIds: ['b.js:0'] },
+    ];
+
+    expect(validatePlan(moved, commits).valid).toBe(true);
+    expect(validatePlan(moved, commits, { keepMovesTogether: true }).diagnostics).toEqual([
+      {
+        code: 'split-move',
+        message: 'Code moved from a.js:0 to b.js:0 is removed in commit 1 but added in commit 2',
+        hunkId: 'a.js:0',
+        lineIndices: [0, 1],
+        commits: [0, 1],
+      },
+    ]);
+    expect(validatePlan(moved, [{ label: 'move', hunkIds: ['a.js:0', 'b.js:0'] }], { keepMovesTogether: true }).valid).toBe(true);
+  });
+});
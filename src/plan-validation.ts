@@ -0,0 +1,417 @@
+/**
+ * Commit series plan validation
+ *
+ * Checks a plan for a series of commits before anything is staged: that
+ * every change of the diff goes into exactly one commit, that every ID
+ * names something in the diff, and that each commit's patch applies on
+ * top of the ones before it, and optionally that moved code isn't split
+ * between commits. Plans come as the groups an LLM returns for
+ * createSelectionPrompt, or as StagingPlans; the diagnostics say what to
+ * fix, by commit, hunk and line.
+ */
+
+import { FileDiff, Hunk, ParsedDiff } from './types.js';
+import { parseHunkId, selectHunksWithLines } from './manipulator.js';
+import { HunkSelection, selectedLineIndices, selectionToHunk, StagingPlan } from './interactive.js';
+import { applyHunksToContent } from './apply.js';
+import { findMoves } from './moves.js';
+
+/**
+ * One commit as createSelectionPrompt asks for it
+ */
+export interface SelectionGroup {
+  label: string;
+  /** Whole hunks ("app.js:0") or lines of them ("app.js:0:3"), as for selectHunksWithLines */
+  hunkIds: string[];
+  commitMessage?: string;
+}
+
+/**
+ * One commit of a planned series
+ */
+export type PlannedCommit = SelectionGroup | StagingPlan;
+
+/**
+ * A problem with a planned series
+ */
+export interface PlanDiagnostic {
+  code: PlanDiagnosticCode;
+  /** Human-readable description */
+  message: string;
+  /** 0-based index of the commit the problem is in (absent for 'unassigned') */
+  commit?: number;
+  /** The hunk, or the ID that names nothing */
+  hunkId?: string;
+  /** Line indices within the hunk; absent when the problem is with the whole hunk */
+  lineIndices?: number[];
+  /** For 'double-assigned': every commit that takes the lines; for 'split-move': every commit that takes part of the move */
+  commits?: number[];
+}
+
+/**
+ * Kinds of plan diagnostics
+ * - 'unknown-hunk': an ID that names no hunk of the diff
+ * - 'unknown-line': a line index that isn't a change of its hunk (or, for line edits, isn't in it)
+ * - 'unassigned': changes that no commit takes
+ * - 'double-assigned': changes that more than one commit takes
+ * - 'does-not-apply': a commit's patch that won't apply once the commits before it are staged
+ * - 'split-move': moved code whose removal and addition aren't in the same commit
+ */
+export type PlanDiagnosticCode =
+  | 'unknown-hunk'
+  | 'unknown-line'
+  | 'unassigned'
+  | 'double-assigned'
+  | 'does-not-apply'
+  | 'split-move';
+
+/**
+ * Options for validatePlan
+ */
+export interface PlanValidationOptions {
+  /** Report moves (findMoves) whose two halves go into different commits (default: not checked) */
+  keepMovesTogether?: boolean;
+}
+
+/**
+ * Result of validating a planned series
+ */
+export interface PlanValidation {
+  /** Whether the plan has no problems */
+  valid: boolean;
+  /** Problems in commit order, then coverage problems, then split moves */
+  diagnostics: PlanDiagnostic[];
+}
+
+/**
+ * Which changes of each hunk one commit takes, and the hunks it stages
+ */
+interface CommitChanges {
+  /** Taken change line indices by hunk; whole-file units take index -1 */
+  taken: Map<Hunk, Set<number>>;
+  /** The hunks as they will be staged */
+  staged: Hunk[];
+}
+
+/**
+ * Check a planned commit series against the diff it splits up
+ *
+ * Commits are taken in order. Lines are taken as they would be staged:
+ * line-level group IDs take the hunk's removals along with the chosen
+ * additions (as selectHunksWithLines does), and a StagingPlan takes the
+ * additions and removals its selections include. Applicability is
+ * simulated in memory on the parts of the files the diff shows, with the
+ * same matching as applyHunksToContent.
+ */
+export function validatePlan(diff: ParsedDiff, commits: PlannedCommit[], options: PlanValidationOptions = {}): PlanValidation {
+  const diagnostics: PlanDiagnostic[] = [];
+  const takenBy = new Map<Hunk, Map<number, number[]>>();
+  const contents = new Map<string, string>();
+
+  commits.forEach((commit, index) => {
+    const changes = 'selections' in commit
+      ? planChanges(diff, commit, index, diagnostics)
+      : groupChanges(diff, commit, index, diagnostics);
+
+    for (const [hunk, lines] of changes.taken) {
+      const byLine = takenBy.get(hunk) ?? new Map<number, number[]>();
+      for (const line of lines) {
+        byLine.set(line, [...(byLine.get(line) ?? []), index]);
+      }
+      takenBy.set(hunk, byLine);
+    }
+
+    simulateCommit(diff, changes.staged, index, commitName(commit), contents, diagnostics);
+  });
+
+  for (const hunk of diff.getAllHunks()) {
+    diagnostics.push(...coverageDiagnostics(hunk, takenBy.get(hunk) ?? new Map()));
+  }
+  if (options.keepMovesTogether) {
+    diagnostics.push(...splitMoveDiagnostics(diff, takenBy));
+  }
+
+  return { valid: diagnostics.length === 0, diagnostics };
+}
+
+/**
+ * Work out what a group of hunk IDs takes
+ */
+function groupChanges(diff: ParsedDiff, group: SelectionGroup, commit: number, diagnostics: PlanDiagnostic[]): CommitChanges {
+  const taken = new Map<Hunk, Set<number>>();
+  const valid: string[] = [];
+
+  for (const id of group.hunkIds) {
+    const { baseId, lineIndex } = parseHunkId(id);
+    const hunk = diff.getHunk(id) ?? diff.getHunk(baseId);
+    if (!hunk) {
+      diagnostics.push({ code: 'unknown-hunk', message: `Commit ${commit + 1}: no hunk has the ID ${id}`, commit, hunkId: id });
+      continue;
+    }
+
+    const lines = taken.get(hunk) ?? new Set<number>();
+    taken.set(hunk, lines);
+    if (hunk.kind) {
+      lines.add(-1);
+    } else if (lineIndex === undefined || diff.getHunk(id)) {
+      changeIndices(hunk).forEach(i => lines.add(i));
+    } else if (hunk.lines[lineIndex]?.type !== 'add' && hunk.lines[lineIndex]?.type !== 'remove') {
+      diagnostics.push(unknownLine(commit, hunk, [lineIndex]));
+      continue;
+    } else {
+      // A line-level selection stages the hunk's removals with the chosen additions
+      lines.add(lineIndex);
+      changeIndices(hunk).filter(i => hunk.lines[i].type === 'remove').forEach(i => lines.add(i));
+    }
+    valid.push(id);
+  }
+
+  return { taken, staged: selectHunksWithLines(diff, valid) };
+}
+
+/**
+ * Work out what a StagingPlan takes
+ */
+function planChanges(diff: ParsedDiff, plan: StagingPlan, commit: number, diagnostics: PlanDiagnostic[]): CommitChanges {
+  const taken = new Map<Hunk, Set<number>>();
+  const staged: Hunk[] = [];
+
+  for (const selection of plan.selections) {
+    if (selection.mode === 'none') continue;
+
+    const hunk = diff.getHunk(selection.hunkId);
+    if (!hunk) {
+      diagnostics.push({
+        code: 'unknown-hunk',
+        message: `Commit ${commit + 1}: no hunk has the ID ${selection.hunkId}`,
+        commit,
+        hunkId: selection.hunkId,
+      });
+      continue;
+    }
+
+    const unknown = unknownSelectionLines(hunk, selection);
+    if (unknown.length > 0) {
+      diagnostics.push(unknownLine(commit, hunk, unknown));
+      continue;
+    }
+
+    const lines = taken.get(hunk) ?? new Set<number>();
+    taken.set(hunk, lines);
+    if (hunk.kind) {
+      lines.add(-1);
+    } else {
+      selectedLineIndices(hunk, selection).forEach(i => lines.add(i));
+    }
+
+    try {
+      staged.push(selectionToHunk(hunk, selection));
+    } catch (error: any) {
+      diagnostics.push({ code: 'unknown-line', message: `Commit ${commit + 1}: ${error.message}`, commit, hunkId: hunk.id });
+    }
+  }
+
+  return { taken, staged };
+}
+
+/**
+ * Line indices a selection names that its hunk doesn't have, or has as a different kind of line
+ */
+function unknownSelectionLines(hunk: Hunk, selection: HunkSelection): number[] {
+  const edited = (selection.lineEdits ?? []).map(e => e.lineIndex);
+  if (hunk.kind || selection.mode === 'all') {
+    return edited.filter(i => !hunk.lines[i]);
+  }
+  // Plan documents list "[E]" lines among the additions, whatever kind of line they edit
+  const editedSet = new Set(edited);
+  return [
+    ...(selection.includeAdditions ?? []).filter(i => !editedSet.has(i) && hunk.lines[i]?.type !== 'add'),
+    ...(selection.includeRemovals ?? []).filter(i => !editedSet.has(i) && hunk.lines[i]?.type !== 'remove'),
+    ...edited.filter(i => !hunk.lines[i]),
+  ];
+}
+
+/**
+ * Apply one commit's hunks to the simulated files, reporting those that don't apply
+ */
+function simulateCommit(
+  diff: ParsedDiff,
+  staged: Hunk[],
+  commit: number,
+  name: string,
+  contents: Map<string, string>,
+  diagnostics: PlanDiagnostic[],
+): void {
+  const byFile = new Map<string, Hunk[]>();
+  for (const hunk of staged) {
+    // Mode, rename, binary and submodule units have no lines to simulate
+    if (hunk.kind || hunk.parentRanges) continue;
+    byFile.set(hunk.file, [...(byFile.get(hunk.file) ?? []), hunk]);
+  }
+
+  for (const [path, hunks] of byFile) {
+    const file = diff.files.find(f => f.newPath === path)!;
+    const content = contents.get(path) ?? knownOldContent(file);
+    const result = applyHunksToContent(content, hunks);
+    contents.set(path, result.content);
+
+    for (const hunkResult of result.hunks) {
+      if (hunkResult.status !== 'rejected') continue;
+      diagnostics.push({
+        code: 'does-not-apply',
+        message: `Commit ${commit + 1} (${name}): hunk ${hunkResult.hunkId} won't apply on top of the commits before it (${hunkResult.reason})`,
+        commit,
+        hunkId: hunkResult.hunkId,
+      });
+    }
+  }
+}
+
+/**
+ * The old content of a file as far as its hunks show it
+ * Lines the diff doesn't show are stood in for by lines that match nothing.
+ */
+function knownOldContent(file: FileDiff): string {
+  if (file.isNew) return '';
+
+  const lines: string[] = [];
+  let endsWithNewline = true;
+  for (const hunk of file.hunks) {
+    if (hunk.kind || hunk.parentRanges) continue;
+
+    const start = hunk.oldCount === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+    while (lines.length < start - 1) {
+      lines.push(`\0unknown line ${lines.length + 1}`);
+    }
+    for (const line of hunk.lines) {
+      if (line.type === 'add') continue;
+      lines.push(line.content);
+      if (line.noNewlineAtEof) endsWithNewline = false;
+    }
+  }
+
+  if (lines.length === 0) return '';
+  return lines.join('\n') + (endsWithNewline ? '\n' : '');
+}
+
+/**
+ * Report a hunk's changes that no commit or several commits take
+ */
+function coverageDiagnostics(hunk: Hunk, byLine: Map<number, number[]>): PlanDiagnostic[] {
+  const diagnostics: PlanDiagnostic[] = [];
+  const changes = hunk.kind ? [-1] : changeIndices(hunk);
+
+  const unassigned = changes.filter(i => !byLine.has(i));
+  if (unassigned.length === changes.length) {
+    diagnostics.push({ code: 'unassigned', message: `Hunk ${hunk.id} is not in any commit`, hunkId: hunk.id });
+  } else if (unassigned.length > 0) {
+    diagnostics.push({
+      code: 'unassigned',
+      message: `${capitalize(describeLines(unassigned))} of hunk ${hunk.id} ${unassigned.length === 1 ? 'is' : 'are'} not in any commit`,
+      hunkId: hunk.id,
+      lineIndices: unassigned,
+    });
+  }
+
+  // Group lines by the set of commits that take them, so each overlap is reported once
+  const overlaps = new Map<string, number[]>();
+  for (const i of changes) {
+    const commits = [...new Set(byLine.get(i) ?? [])];
+    if (commits.length < 2) continue;
+    const key = commits.join(',');
+    overlaps.set(key, [...(overlaps.get(key) ?? []), i]);
+  }
+  for (const [key, lines] of overlaps) {
+    const commits = key.split(',').map(Number);
+    const which = commits.map(c => c + 1).join(' and ');
+    diagnostics.push({
+      code: 'double-assigned',
+      message: hunk.kind
+        ? `Hunk ${hunk.id} is in commits ${which}`
+        : `${capitalize(describeLines(lines))} of hunk ${hunk.id} ${lines.length === 1 ? 'is' : 'are'} in commits ${which}`,
+      hunkId: hunk.id,
+      ...(hunk.kind ? {} : { lineIndices: lines }),
+      commits,
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Report moves whose removal and addition are taken by different commits
+ */
+function splitMoveDiagnostics(diff: ParsedDiff, takenBy: Map<Hunk, Map<number, number[]>>): PlanDiagnostic[] {
+  const diagnostics: PlanDiagnostic[] = [];
+  const commitsTaking = (side: { hunkId: string; lineIndices: number[] }) => {
+    const byLine = takenBy.get(diff.getHunk(side.hunkId)!);
+    return [...new Set(side.lineIndices.flatMap(i => byLine?.get(i) ?? []))].sort((a, b) => a - b);
+  };
+
+  for (const move of findMoves(diff.getAllHunks())) {
+    const fromCommits = commitsTaking(move.from);
+    const toCommits = commitsTaking(move.to);
+    if (fromCommits.length === 1 && toCommits.length === 1 && fromCommits[0] === toCommits[0]) continue;
+    // Nothing of the move is planned; 'unassigned' already says so
+    if (fromCommits.length === 0 && toCommits.length === 0) continue;
+
+    diagnostics.push({
+      code: 'split-move',
+      message: `Code moved from ${move.from.hunkId} to ${move.to.hunkId} is removed in ${describeCommits(fromCommits)} but added in ${describeCommits(toCommits)}`,
+      hunkId: move.from.hunkId,
+      lineIndices: move.from.lineIndices,
+      commits: [...new Set([...fromCommits, ...toCommits])].sort((a, b) => a - b),
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * "no commit", "commit 2" or "commits 1 and 3"
+ */
+function describeCommits(commits: number[]): string {
+  if (commits.length === 0) return 'no commit';
+  return `${commits.length === 1 ? 'commit' : 'commits'} ${commits.map(c => c + 1).join(' and ')}`;
+}
+
+/**
+ * Indices of a hunk's added and removed lines
+ */
+function changeIndices(hunk: Hunk): number[] {
+  return hunk.lines.flatMap((line, i) => (line.type === 'context' ? [] : [i]));
+}
+
+/**
+ * Diagnostic for line indices that aren't changes of a hunk
+ */
+function unknownLine(commit: number, hunk: Hunk, lineIndices: number[]): PlanDiagnostic {
+  return {
+    code: 'unknown-line',
+    message: `Commit ${commit + 1}: hunk ${hunk.id} has no changed ${describeLines(lineIndices)} (it has lines 0-${hunk.lines.length - 1})`,
+    commit,
+    hunkId: hunk.id,
+    lineIndices,
+  };
+}
+
+/**
+ * "line 3" or "lines 3, 4"
+ */
+function describeLines(lineIndices: number[]): string {
+  return `${lineIndices.length === 1 ? 'line' : 'lines'} ${lineIndices.join(', ')}`;
+}
+
+/**
+ * Upper-case the first letter, to start a message with
+ */
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * How to refer to a commit in messages
+ */
+function commitName(commit: PlannedCommit): string {
+  return 'selections' in commit ? `"${commit.commitMessage}"` : `"${commit.label}"`;
+}
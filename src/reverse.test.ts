@@ -0,0 +1,119 @@
+import { parseDiff } from '../src/parser';
+import { generatePatch } from '../src/manipulator';
+import { applyHunksToContent } from '../src/apply';
+import { reverseDiff, reverseHunk } from '../src/reverse';
+
+const diff = parseDiff(`diff --git a/app.js b/app.js
+--- a/app.js
++++ b/app.js
+@@ -1,4 +1,5 @@
+ const a = 1;
+-const b = 2;
++const b = 3;
++const c = 4;
+ const d = 5;
+ const e = 6;
+diff --git a/old.txt b/new.txt
+old mode 100644
+new mode 100755
+similarity index 90%
+rename from old.txt
+rename to new.txt
+--- a/old.txt
++++ b/new.txt
+@@ -3 +3 @@
+-three
+\\ No newline at end of file
++THREE
+\\ No newline at end of file
+diff --git a/added.txt b/added.txt
+new file mode 100644
+index 0000000..e69de29
+--- /dev/null
++++ b/added.txt
+@@ -0,0 +1 @@
++hello
+`);
+
+describe('reverseHunk', () => {
+  it('should swap additions and removals, keeping removals first', () => {
+    const reversed = reverseHunk(diff.getHunk('app.js:0')!);
+    expect(reversed.header).toBe('@@ -1,5 +1,4 @@');
+    expect(reversed.lines.map(l => `${l.type} ${l.content}`)).toEqual([
+      'context const a = 1;',
+      'remove const b = 3;',
+      'remove const c = 4;',
+      'add const b = 2;',
+      'context const d = 5;',
+      'context const e = 6;',
+    ]);
+    expect(reversed.stableId).toBeUndefined();
+
+    const newContent = 'const a = 1;\nconst b = 3;\nconst c = 4;\nconst d = 5;\nconst e = 6;\n';
+    expect(applyHunksToContent(newContent, [reversed]).content).toBe(
+      'const a = 1;\nconst b = 2;\nconst d = 5;\nconst e = 6;\n'
+    );
+  });
+
+  it('should move hunks of a renamed file back to the old path', () => {
+    const reversed = reverseHunk(diff.getHunk('new.txt:0')!);
+    expect(reversed).toMatchObject({ id: 'old.txt:0', file: 'old.txt', oldFile: 'new.txt' });
+    expect(reversed.fileHeader).toMatchObject({ oldPath: 'new.txt', newPath: 'old.txt', oldMode: '100755', newMode: '100644' });
+    expect(reversed.lines).toEqual([
+      { type: 'remove', content: 'THREE', noNewlineAtEof: true },
+      { type: 'add', content: 'three', noNewlineAtEof: true },
+    ]);
+    expect(reverseHunk(diff.getHunk('new.txt:mode')!).header).toBe('mode change 100755 => 100644');
+  });
+
+  it('should refuse to reverse a copy', () => {
+    const copy = parseDiff(`diff --git a/a.txt b/b.txt
+similarity index 100%
+copy from a.txt
+copy to b.txt
+`);
+    expect(() => reverseHunk(copy.getHunk('b.txt:copy')!)).toThrow(
+      "Hunk b.txt:copy can't be reversed: undoing a copy deletes b.txt, and the diff doesn't have its content"
+    );
+  });
+});
+
+describe('reverseDiff', () => {
+  it('should produce a patch that undoes the diff', () => {
+    const reversed = reverseDiff(diff);
+    expect(reversed.files.map(f => [f.oldPath, f.newPath, f.isNew, f.isDeleted])).toEqual([
+      ['app.js', 'app.js', false, false],
+      ['new.txt', 'old.txt', false, false],
+      ['added.txt', 'added.txt', false, true],
+    ]);
+    expect(reversed.getHunk(reversed.files[0].hunks[0].stableId!)).toBe(reversed.files[0].hunks[0]);
+
+    expect(generatePatch(reversed.getFileHunks('old.txt'))).toBe(`diff --git a/new.txt b/old.txt
+old mode 100755
+new mode 100644
+similarity index 90%
+rename from new.txt
+rename to old.txt
+--- a/new.txt
++++ b/old.txt
+@@ -3 +3 @@
+-THREE
+\\ No newline at end of file
++three
+\\ No newline at end of file
+`);
+    expect(generatePatch(reversed.getFileHunks('added.txt'))).toBe(`diff --git a/added.txt b/added.txt
+deleted file mode 100644
+--- a/added.txt
++++ /dev/null
+@@ -1 +0,0 @@
+-hello
+`);
+  });
+
+  it('should give back the original diff when reversed twice', () => {
+    const twice = reverseDiff(reverseDiff(diff));
+    expect(generatePatch(twice.getAllHunks())).toBe(generatePatch(diff.getAllHunks()));
+    expect(twice.getAllHunks().map(h => h.stableId)).toEqual(diff.getAllHunks().map(h => h.stableId));
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * In-memory reversal of diffs
+ *
+ * The inverse of a diff turns its new side back into its old side:
+ * additions become removals, the old and new ranges trade places, and so
+ * do new and deleted files, rename sources and targets, modes and blob
+ * hashes. Applied to the index it unstages the changes, applied to the
+ * working tree it undoes them, and committed it reverts them. Unlike
+ * reversePatch in git.ts, this works on hunks and never calls git.
+ */
+
+import { DiffLine, FileDiff, FileHeader, Hunk, ParsedDiff } from './types.js';
+import { recalculateHeader } from './manipulator.js';
+import { assignStableIds } from './stable-ids.js';
+import { createParsedDiff } from './parsed-diff.js';
+
+/**
+ * Reverse every file of a diff
+ * Hunks keep their order, and get the stable IDs of their reversed changes.
+ */
+export function reverseDiff(diff: ParsedDiff): ParsedDiff {
+  return createParsedDiff(diff.files.map(reverseFile));
+}
+
+/**
+ * Reverse all changes to one file
+ */
+export function reverseFile(file: FileDiff): FileDiff {
+  const { hunks, ...header } = file;
+  const fileHeader = reverseHeader(header);
+
+  // Hunks that shared a header snapshot share the reversed one
+  const reversedHeaders = new Map<FileHeader, FileHeader>();
+  const reversed = hunks.map(hunk => {
+    assertReversible(hunk);
+    if (!hunk.fileHeader) return reverseHunkWithHeader(hunk);
+    if (!reversedHeaders.has(hunk.fileHeader)) reversedHeaders.set(hunk.fileHeader, reverseHeader(hunk.fileHeader));
+    return reverseHunkWithHeader(hunk, reversedHeaders.get(hunk.fileHeader));
+  });
+  assignStableIds(reversed);
+
+  return { ...fileHeader, hunks: reversed };
+}
+
+/**
+ * Reverse a single hunk, e.g. to unstage it or to revert just that change
+ *
+ * The reversed hunk applies to the hunk's new side and produces its old
+ * side. It keeps its ID suffix under the path it now applies to, and has
+ * no stable ID of its own (reverseFile assigns them). Like any hunk of a
+ * renamed file, a reversed one carries the rename, so it moves the file
+ * back as well.
+ */
+export function reverseHunk(hunk: Hunk): Hunk {
+  assertReversible(hunk);
+  return reverseHunkWithHeader(hunk, hunk.fileHeader && reverseHeader(hunk.fileHeader));
+}
+
+/**
+ * Throw if a hunk has no inverse that can be written as a hunk
+ */
+function assertReversible(hunk: Hunk): void {
+  if (hunk.parentRanges) {
+    throw new Error(`Hunk ${hunk.id} can't be reversed: it is from a combined diff`);
+  }
+  if (hunk.kind === 'copy') {
+    throw new Error(`Hunk ${hunk.id} can't be reversed: undoing a copy deletes ${hunk.file}, and the diff doesn't have its content`);
+  }
+}
+
+/**
+ * Reverse a hunk, giving it an already reversed file header
+ */
+function reverseHunkWithHeader(hunk: Hunk, fileHeader?: FileHeader): Hunk {
+  // The reverse applies to the file's new path, and moves it back to the old one
+  const file = hunk.oldFile ?? hunk.file;
+  const { stableId: _stableId, oldFile: _oldFile, fileHeader: _fileHeader, ...rest } = hunk;
+  const reversed: Hunk = {
+    ...rest,
+    id: hunk.id.startsWith(`${hunk.file}:`) ? `${file}${hunk.id.slice(hunk.file.length)}` : hunk.id,
+    file,
+    ...(hunk.oldFile ? { oldFile: hunk.file } : {}),
+    oldStart: hunk.newStart,
+    oldCount: hunk.newCount,
+    newStart: hunk.oldStart,
+    newCount: hunk.oldCount,
+    lines: reverseLines(hunk.lines),
+    ...(fileHeader ? { fileHeader } : {}),
+  };
+
+  if (!hunk.kind || hunk.kind === 'submodule') {
+    // Swapping the ranges keeps them written as they were, e.g. "-3" rather than "-3,1"
+    const ranges = /^@@ -(\S+) \+(\S+) @@/;
+    reversed.header = ranges.test(hunk.header) ? hunk.header.replace(ranges, '@@ -$2 +$1 @@') : recalculateHeader(reversed);
+  } else if (hunk.kind === 'rename') {
+    reversed.header = `rename ${hunk.file} => ${file}`;
+  } else if (hunk.kind === 'mode') {
+    reversed.header = hunk.header.replace(/^mode change (\S+) => (\S+)$/, 'mode change $2 => $1');
+  }
+  return reversed;
+}
+
+/**
+ * Swap additions and removals
+ * Within each run of changes the removals are put first again, as git writes them.
+ */
+function reverseLines(lines: DiffLine[]): DiffLine[] {
+  const reversed: DiffLine[] = [];
+  let removals: DiffLine[] = [];
+  let additions: DiffLine[] = [];
+
+  const flush = () => {
+    reversed.push(...removals, ...additions);
+    removals = [];
+    additions = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'context') {
+      flush();
+      reversed.push(line);
+    } else if (line.type === 'add') {
+      removals.push({ ...line, type: 'remove' });
+    } else {
+      additions.push({ ...line, type: 'add' });
+    }
+  }
+  flush();
+
+  return reversed;
+}
+
+/**
+ * Swap the two sides of a file header
+ */
+function reverseHeader(header: FileHeader): FileHeader {
+  if (header.isCombined) {
+    throw new Error(`Changes to ${header.newPath} can't be reversed: they are from a combined diff`);
+  }
+  if (header.isCopied) {
+    throw new Error(`Changes to ${header.newPath} can't be reversed: undoing a copy deletes the file, and the diff doesn't have its content`);
+  }
+  if (header.binary && !header.binary.reverse) {
+    throw new Error(`Changes to ${header.newPath} can't be reversed: its binary patch has no reverse block`);
+  }
+
+  const { binary, submodule } = header;
+  return {
+    ...header,
+    oldPath: header.newPath,
+    newPath: header.oldPath,
+    isNew: header.isDeleted,
+    isDeleted: header.isNew,
+    oldMode: header.newMode,
+    newMode: header.oldMode,
+    oldHash: header.newHash,
+    newHash: header.oldHash,
+    ...(binary?.reverse ? { binary: { forward: binary.reverse, reverse: binary.forward } } : {}),
+    ...(submodule ? { submodule: { ...submodule, oldCommit: submodule.newCommit, newCommit: submodule.oldCommit } } : {}),
+  };
+}
@@ -0,0 +1,101 @@
+import { parseDiff } from '../src/parser';
+import { editHunk, generatePatch, withRenameApplied } from '../src/manipulator';
+import { DIFF_JSON_VERSION, fromJSON, toJSON } from '../src/serialize';
+
+const diffText = `diff --git a/a.txt b/b.txt
+similarity index 90%
+rename from a.txt
+rename to b.txt
+index 0ff3bbb..fb3ced1 100644
+--- a/a.txt
++++ b/b.txt
+@@ -2,3 +2,3 @@ function foo()
+ 4
+-5
++five
+ 6
+diff --git a/run.sh b/run.sh
+old mode 100644
+new mode 100755
+--- a/run.sh
++++ b/run.sh
+@@ -1 +1 @@
+-echo hi
+\\ No newline at end of file
++echo hello
+\\ No newline at end of file
+`;
+
+describe('toJSON', () => {
+  const diff = parseDiff(diffText);
+
+  it('should produce versioned plain data', () => {
+    const json = toJSON(diff);
+
+    expect(json.version).toBe(DIFF_JSON_VERSION);
+    expect(json.files.map(f => f.newPath)).toEqual(['b.txt', 'run.sh']);
+    expect(JSON.parse(JSON.stringify(json))).toEqual(json);
+  });
+
+  it('should leave out file headers the hunks share with their file', () => {
+    const json = toJSON(diff);
+    expect(json.files[0].hunks.every(h => h.fileHeader === undefined)).toBe(true);
+  });
+});
+
+describe('fromJSON', () => {
+  const diff = parseDiff(diffText, { strict: true });
+
+  it('should restore the same files and helper methods', () => {
+    const restored = fromJSON(JSON.stringify(toJSON(diff)));
+
+    expect(restored.files).toEqual(diff.files);
+    expect(restored.getAllHunks().map(h => h.id)).toEqual(['b.txt:rename', 'b.txt:0', 'run.sh:mode', 'run.sh:0']);
+    expect(restored.getHunk('b.txt:0')?.context).toBe('function foo()');
+    expect(restored.getFileHunks('a.txt')).toHaveLength(2);
+    expect(restored.diagnostics).toEqual([]);
+  });
+
+  it('should produce identical patches after a round-trip', () => {
+    const restored = fromJSON(toJSON(diff));
+    expect(generatePatch(restored.getAllHunks())).toBe(generatePatch(diff.getAllHunks()));
+  });
+
+  it('should share one file header between the hunks of a file', () => {
+    const [rename, content] = fromJSON(toJSON(diff)).getFileHunks('b.txt');
+    expect(rename.fileHeader).toBe(content.fileHeader);
+  });
+
+  it('should keep file headers that differ from their file, and missing ones', () => {
+    const edited = withRenameApplied(diff.getHunk('b.txt:0')!);
+    const { fileHeader: _fileHeader, ...bare } = editHunk(diff.getHunk('run.sh:0')!, {});
+    const modified = { ...diff, files: [{ ...diff.files[0], hunks: [edited] }, { ...diff.files[1], hunks: [bare] }] };
+
+    const restored = fromJSON(JSON.stringify(toJSON(modified)));
+
+    expect(restored.getHunk('b.txt:0')?.fileHeader).toMatchObject({ oldPath: 'b.txt', isRenamed: false });
+    expect(restored.getHunk('run.sh:0')?.fileHeader).toBeUndefined();
+  });
+
+  it('should reject unsupported versions', () => {
+    expect(() => fromJSON({ version: 2, files: [] })).toThrow('Unsupported diff JSON version 2 (expected 1)');
+    expect(() => fromJSON({ files: [] })).toThrow('Unsupported diff JSON version undefined');
+  });
+
+  it('should point at the invalid field', () => {
+    const json = JSON.parse(JSON.stringify(toJSON(diff)));
+    json.files[1].hunks[1].lines[0].type = 'changed';
+
+    expect(() => fromJSON(json)).toThrow(
+      'Invalid diff JSON: files[1].hunks[1].lines[0].type must be one of "context", "add", "remove"',
+    );
+  });
+
+  it('should reject malformed JSON text and duplicate hunk IDs', () => {
+    expect(() => fromJSON('{"version": 1,')).toThrow(/^Invalid diff JSON: /);
+
+    const json = toJSON(diff);
+    json.files[1].hunks[1].id = 'b.txt:0';
+    expect(() => fromJSON(json)).toThrow('files[1].hunks[1].id "b.txt:0" is not unique');
+  });
+});
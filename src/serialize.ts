@@ -0,0 +1,254 @@
+/**
+ * JSON serialization of parsed diffs
+ *
+ * A ParsedDiff carries helper methods, so it can't go through
+ * JSON.stringify/JSON.parse as is. toJSON() turns it into plain, versioned
+ * data; fromJSON() validates such data and rebuilds the ParsedDiff.
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { FileDiff, FileHeader, Hunk, ParseDiagnostic, ParsedDiff } from './types.js';
+import { createParsedDiff } from './parsed-diff.js';
+
+/**
+ * Version of the JSON format written by toJSON()
+ */
+export const DIFF_JSON_VERSION = 1;
+
+/**
+ * A hunk as stored in JSON
+ *
+ * `fileHeader` is left out when it is the file's own header (the usual case
+ * for parsed hunks), and is null when the hunk had none.
+ */
+export type HunkJSON = Omit<Hunk, 'fileHeader'> & { fileHeader?: FileHeader | null };
+
+/**
+ * A file as stored in JSON
+ */
+export type FileDiffJSON = Omit<FileDiff, 'hunks'> & { hunks: HunkJSON[] };
+
+/**
+ * A ParsedDiff as stored in JSON
+ */
+export interface DiffJSON {
+  version: typeof DIFF_JSON_VERSION;
+  files: FileDiffJSON[];
+  diagnostics?: ParseDiagnostic[];
+}
+
+/**
+ * Convert a ParsedDiff to plain data that JSON.stringify can store
+ */
+export function toJSON(diff: ParsedDiff): DiffJSON {
+  return {
+    version: DIFF_JSON_VERSION,
+    files: diff.files.map(file => {
+      const { hunks, ...header } = file;
+      return {
+        ...header,
+        hunks: hunks.map(hunk => {
+          const { fileHeader, ...rest } = hunk;
+          if (!fileHeader) return { ...rest, fileHeader: null };
+          return isDeepStrictEqual(fileHeader, header) ? rest : hunk;
+        }),
+      };
+    }),
+    ...(diff.diagnostics ? { diagnostics: diff.diagnostics } : {}),
+  };
+}
+
+/**
+ * Rebuild a ParsedDiff from toJSON() output, or a JSON string of it
+ * Throws if the data isn't a valid diff of a supported version.
+ */
+export function fromJSON(json: unknown): ParsedDiff {
+  let data = json;
+  if (typeof json === 'string') {
+    try {
+      data = JSON.parse(json);
+    } catch (error: any) {
+      throw new Error(`Invalid diff JSON: ${error.message}`);
+    }
+  }
+
+  const root = expectObject(data, 'diff');
+  if (root.version !== DIFF_JSON_VERSION) {
+    throw new Error(`Unsupported diff JSON version ${JSON.stringify(root.version)} (expected ${DIFF_JSON_VERSION})`);
+  }
+
+  const seenIds = new Set<string>();
+  const files = expectArray(root.files, 'files').map((value, i) => {
+    const path = `files[${i}]`;
+    const { hunks, ...header } = expectObject(value, path);
+    const fileHeader = validateFileHeader(header, path);
+
+    return {
+      ...fileHeader,
+      hunks: expectArray(hunks, `${path}.hunks`).map((hunk, j) => {
+        const restored = validateHunk(hunk, `${path}.hunks[${j}]`, fileHeader);
+        if (seenIds.has(restored.id)) {
+          throw new Error(`Invalid diff JSON: ${path}.hunks[${j}].id "${restored.id}" is not unique`);
+        }
+        seenIds.add(restored.id);
+        return restored;
+      }),
+    };
+  });
+
+  const diff = createParsedDiff(files);
+  if (root.diagnostics !== undefined) {
+    diff.diagnostics = expectArray(root.diagnostics, 'diagnostics').map((value, i) => {
+      const diagnostic = expectObject(value, `diagnostics[${i}]`);
+      expectType(diagnostic.line, 'number', `diagnostics[${i}].line`);
+      expectOneOf(diagnostic.severity, ['error', 'warning'], `diagnostics[${i}].severity`);
+      expectType(diagnostic.code, 'string', `diagnostics[${i}].code`);
+      expectType(diagnostic.message, 'string', `diagnostics[${i}].message`);
+      return diagnostic as unknown as ParseDiagnostic;
+    });
+  }
+  return diff;
+}
+
+/**
+ * Check the file-level fields of a file or hunk header
+ */
+function validateFileHeader(header: Record<string, unknown>, path: string): FileHeader {
+  for (const field of ['oldPath', 'newPath']) {
+    expectType(header[field], 'string', `${path}.${field}`);
+  }
+  for (const field of ['isNew', 'isDeleted', 'isRenamed']) {
+    expectType(header[field], 'boolean', `${path}.${field}`);
+  }
+  for (const field of ['isCopied', 'isBinary', 'isCombined']) {
+    expectOptional(header[field], 'boolean', `${path}.${field}`);
+  }
+  for (const field of ['oldMode', 'newMode', 'oldHash', 'newHash']) {
+    expectOptional(header[field], 'string', `${path}.${field}`);
+  }
+  expectOptional(header.similarity, 'number', `${path}.similarity`);
+
+  if (header.binary !== undefined) {
+    const binary = expectObject(header.binary, `${path}.binary`);
+    validateBinaryBlock(binary.forward, `${path}.binary.forward`);
+    if (binary.reverse !== undefined) {
+      validateBinaryBlock(binary.reverse, `${path}.binary.reverse`);
+    }
+  }
+
+  if (header.submodule !== undefined) {
+    const submodule = expectObject(header.submodule, `${path}.submodule`);
+    expectOptional(submodule.oldCommit, 'string', `${path}.submodule.oldCommit`);
+    expectOptional(submodule.newCommit, 'string', `${path}.submodule.newCommit`);
+    expectOptional(submodule.dirty, 'boolean', `${path}.submodule.dirty`);
+  }
+
+  return header as unknown as FileHeader;
+}
+
+/**
+ * Check one literal/delta block of a binary patch
+ */
+function validateBinaryBlock(value: unknown, path: string): void {
+  const block = expectObject(value, path);
+  expectOneOf(block.method, ['literal', 'delta'], `${path}.method`);
+  expectType(block.size, 'number', `${path}.size`);
+  expectArray(block.data, `${path}.data`).forEach((line, i) => expectType(line, 'string', `${path}.data[${i}]`));
+}
+
+/**
+ * Check a hunk and restore its file header
+ */
+function validateHunk(value: unknown, path: string, fileHeader: FileHeader): Hunk {
+  const { fileHeader: ownHeader, ...hunk } = expectObject(value, path);
+
+  for (const field of ['id', 'file', 'header']) {
+    expectType(hunk[field], 'string', `${path}.${field}`);
+  }
+  for (const field of ['index', 'oldStart', 'oldCount', 'newStart', 'newCount']) {
+    expectType(hunk[field], 'number', `${path}.${field}`);
+  }
+  expectOptional(hunk.stableId, 'string', `${path}.stableId`);
+  expectOptional(hunk.oldFile, 'string', `${path}.oldFile`);
+  expectOptional(hunk.context, 'string', `${path}.context`);
+  if (hunk.kind !== undefined) {
+    expectOneOf(hunk.kind, ['binary', 'mode', 'rename', 'copy', 'submodule'], `${path}.kind`);
+  }
+  if (hunk.parentRanges !== undefined) {
+    expectArray(hunk.parentRanges, `${path}.parentRanges`).forEach((range, i) => {
+      const { start, count } = expectObject(range, `${path}.parentRanges[${i}]`);
+      expectType(start, 'number', `${path}.parentRanges[${i}].start`);
+      expectType(count, 'number', `${path}.parentRanges[${i}].count`);
+    });
+  }
+
+  expectArray(hunk.lines, `${path}.lines`).forEach((line, i) => validateLine(line, `${path}.lines[${i}]`));
+
+  if (ownHeader === null) {
+    return hunk as unknown as Hunk;
+  }
+  return {
+    ...(hunk as unknown as Hunk),
+    fileHeader: ownHeader === undefined ? fileHeader : validateFileHeader(expectObject(ownHeader, `${path}.fileHeader`), `${path}.fileHeader`),
+  };
+}
+
+/**
+ * Check a single diff line
+ */
+function validateLine(value: unknown, path: string): void {
+  const line = expectObject(value, path);
+  expectOneOf(line.type, ['context', 'add', 'remove'], `${path}.type`);
+  expectType(line.content, 'string', `${path}.content`);
+  expectOptional(line.noNewlineAtEof, 'boolean', `${path}.noNewlineAtEof`);
+  if (line.inParents !== undefined) {
+    expectArray(line.inParents, `${path}.inParents`).forEach((flag, i) => expectType(flag, 'boolean', `${path}.inParents[${i}]`));
+  }
+}
+
+/**
+ * Check that a value is a plain object
+ */
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`Invalid diff JSON: ${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Check that a value is an array
+ */
+function expectArray(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid diff JSON: ${path} must be an array`);
+  }
+  return value;
+}
+
+/**
+ * Check the type of a required field
+ */
+function expectType(value: unknown, type: 'string' | 'number' | 'boolean', path: string): void {
+  if (typeof value !== type) {
+    throw new Error(`Invalid diff JSON: ${path} must be a ${type}`);
+  }
+}
+
+/**
+ * Check the type of an optional field
+ */
+function expectOptional(value: unknown, type: 'string' | 'number' | 'boolean', path: string): void {
+  if (value !== undefined) {
+    expectType(value, type, path);
+  }
+}
+
+/**
+ * Check that a value is one of a fixed set of strings
+ */
+function expectOneOf(value: unknown, allowed: string[], path: string): void {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    throw new Error(`Invalid diff JSON: ${path} must be one of ${allowed.map(a => `"${a}"`).join(', ')}`);
+  }
+}
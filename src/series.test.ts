@@ -0,0 +1,230 @@
+import { parsePatchSeries, formatPatchSeries } from '../src/series';
+import { parseDiff } from '../src/parser';
+import { groupHunks, splitHunkAtIndices } from '../src/manipulator';
+
+const series = `From 0f3b6a1c9e2d4f5a6b7c8d9e0f1a2b3c4d5e6f70 Mon Sep 17 00:00:00 2001
+From: Sam Doe <sam@example.com>
+Date: Sun, 18 Oct 2026 16:49:06 +0000
+Subject: [PATCH 0/2] Cover letter
+
+Nothing to apply here.
+
+From 09e8679fdfe1c2d781fd99c6b1dc2e5ff38a76cb Mon Sep 17 00:00:00 2001
+From: Sam Doe <sam@example.com>
+Date: Sun, 18 Oct 2026 16:49:06 +0000
+Subject: [PATCH 1/2] Rename the second line
+
+Longer explanation
+over two lines.
+---
+ f.txt | 2 +-
+ 1 file changed, 1 insertion(+), 1 deletion(-)
+
+diff --git a/f.txt b/f.txt
+index 0719398..e0b0065 100644
+--- a/f.txt
++++ b/f.txt
+@@ -1,3 +1,3 @@
+ 1
+-2
++TWO
+ 3
+-- 
+2.39.5
+
+
+From f6abb6a038cc6b66a444b5a26a46fd3743cb8cc1 Mon Sep 17 00:00:00 2001
+From: Sam Doe <sam@example.com>
+Date: Sun, 18 Oct 2026 16:56:29 +0000
+Subject: [PATCH 2/2] =?UTF-8?q?=C3=9Cn=C3=AFcode=20subject=20that=20is=20rathe?=
+ =?UTF-8?q?r=20long?=
+MIME-Version: 1.0
+Content-Type: text/plain; charset=UTF-8
+Content-Transfer-Encoding: 8bit
+
+From: =?UTF-8?q?Zo=C3=AB=20Q?= <zoe@example.com>
+
+Body line.
+---
+ g.txt | 1 +
+ 1 file changed, 1 insertion(+)
+
+diff --git a/g.txt b/g.txt
+index 2299c37..f4989d0 100644
+--- a/g.txt
++++ b/g.txt
+@@ -1 +1,2 @@
+ side
++z
+-- 
+2.39.5
+
+`;
+
+describe('parsePatchSeries', () => {
+  it('should return the commits in order, skipping mails without a diff', () => {
+    const commits = parsePatchSeries(series);
+
+    expect(commits.map(c => c.hash)).toEqual([
+      '09e8679fdfe1c2d781fd99c6b1dc2e5ff38a76cb',
+      'f6abb6a038cc6b66a444b5a26a46fd3743cb8cc1',
+    ]);
+  });
+
+  it('should read the author, date, subject and body', () => {
+    const [first] = parsePatchSeries(series);
+
+    expect(first).toMatchObject({
+      author: { name: 'Sam Doe', email: 'sam@example.com' },
+      date: 'Sun, 18 Oct 2026 16:49:06 +0000',
+      subject: 'Rename the second line',
+      body: 'Longer explanation\nover two lines.',
+    });
+  });
+
+  it('should parse each diff without the diffstat or signature', () => {
+    const [first] = parsePatchSeries(series);
+    const hunks = first.diff.getAllHunks();
+
+    expect(hunks.map(h => h.id)).toEqual(['f.txt:0']);
+    expect(hunks[0].lines.map(l => l.type)).toEqual(['context', 'remove', 'add', 'context']);
+  });
+
+  it('should keep a removed "- " line at the end of a diff without a signature', () => {
+    const [commit] = parsePatchSeries(`From: Sam Doe <sam@example.com>
+Subject: [PATCH] Drop the dash
+
+diff --git a/list.md b/list.md
+--- a/list.md
++++ b/list.md
+@@ -1,3 +1,2 @@
+ - one
+--${' '}
+ - two
+`);
+
+    expect(commit.diff.getAllHunks()[0].lines).toEqual([
+      { type: 'context', content: '- one' },
+      { type: 'remove', content: '- ' },
+      { type: 'context', content: '- two' },
+    ]);
+  });
+
+  it('should decode folded RFC 2047 subjects and honour in-body From lines', () => {
+    const second = parsePatchSeries(series)[1];
+
+    expect(second.subject).toBe('Ünïcode subject that is rather long');
+    expect(second.author).toEqual({ name: 'Zoë Q', email: 'zoe@example.com' });
+    expect(second.body).toBe('Body line.');
+  });
+
+  it('should keep encoded words in a charset it cannot decode', () => {
+    const commits = parsePatchSeries(`From: =?x-unknown?B?U2Ft?= <sam@example.com>
+Subject: [PATCH] =?x-unknown?q?Fix?= it
+
+diff --git a/f.txt b/f.txt
+--- a/f.txt
++++ b/f.txt
+@@ -1 +1 @@
+-a
++b
+`);
+
+    expect(commits[0].author).toEqual({ name: '=?x-unknown?B?U2Ft?=', email: 'sam@example.com' });
+    expect(commits[0].subject).toBe('=?x-unknown?q?Fix?= it');
+  });
+
+  it('should read a single patch without an mbox separator', () => {
+    const commits = parsePatchSeries(`From: Sam Doe <sam@example.com>
+Subject: [PATCH v2] Fix it
+
+diff --git a/f.txt b/f.txt
+--- a/f.txt
++++ b/f.txt
+@@ -1 +1 @@
+-a
++b
+`);
+
+    expect(commits).toHaveLength(1);
+    expect(commits[0].subject).toBe('Fix it');
+    expect(commits[0].hash).toBeUndefined();
+  });
+});
+
+describe('formatPatchSeries', () => {
+  const commits = parsePatchSeries(series);
+  const entries = commits.map(commit => ({
+    group: groupHunks(commit.diff.getAllHunks(), commit.subject),
+    message: `${commit.subject}\n\n${commit.body}`,
+  }));
+  const options = { author: { name: 'Zoë Q', email: 'zoe@example.com' }, date: new Date(Date.UTC(2024, 0, 2, 3, 4, 5)) };
+
+  it('should write numbered mails with encoded headers', () => {
+    const output = formatPatchSeries(entries, options);
+
+    expect(output).toContain(`From 0000000000000000000000000000000000000000 Mon Sep 17 00:00:00 2001
+From: =?UTF-8?q?Zo=C3=AB=20Q?= <zoe@example.com>
+Date: Tue, 02 Jan 2024 03:04:05 +0000
+Subject: [PATCH 1/2] Rename the second line
+MIME-Version: 1.0`);
+    expect(output).toContain('Subject: [PATCH 2/2] =?UTF-8?q?=C3=9Cn=C3=AFcode=20subject');
+    expect(output).toContain('\nLonger explanation\nover two lines.\n\n---\n\ndiff --git a/f.txt b/f.txt\n');
+  });
+
+  it('should only number series of more than one patch', () => {
+    const output = formatPatchSeries(entries.slice(0, 1), { ...options, subjectPrefix: 'RFC PATCH' });
+    expect(output).toContain('Subject: [RFC PATCH] Rename the second line\n');
+  });
+
+  it('should rename and create files only in the first patch that touches them', () => {
+    const diff = parseDiff(`diff --git a/old.txt b/new.txt
+similarity index 80%
+rename from old.txt
+rename to new.txt
+index 0719398..e0b0065 100644
+--- a/old.txt
++++ b/new.txt
+@@ -1,2 +1,2 @@
+-1
++ONE
+ 2
+@@ -8,2 +8,2 @@
+ 8
+-9
++NINE
+diff --git a/added.txt b/added.txt
+new file mode 100644
+index 0000000..01e79c3
+--- /dev/null
++++ b/added.txt
+@@ -0,0 +1,3 @@
++a
++b
++c
+`);
+    const [first, second] = splitHunkAtIndices(diff.getHunk('added.txt:0')!, [2]);
+    const output = formatPatchSeries([
+      { group: groupHunks([diff.getHunk('new.txt:0')!, first], 'one'), message: 'One' },
+      { group: groupHunks([diff.getHunk('new.txt:1')!, second], 'two'), message: 'Two' },
+    ], options);
+    const [, later] = output.split('Subject: [PATCH 2/2] Two');
+
+    expect(output.match(/rename from old\.txt/g)).toHaveLength(1);
+    expect(output.match(/new file mode/g)).toHaveLength(1);
+    expect(later).toContain('diff --git a/new.txt b/new.txt\n--- a/new.txt\n+++ b/new.txt\n');
+    expect(later).toContain('diff --git a/added.txt b/added.txt\n--- a/added.txt\n+++ b/added.txt\n');
+  });
+
+  it('should round-trip through parsePatchSeries', () => {
+    const reparsed = parsePatchSeries(formatPatchSeries(entries, options));
+
+    expect(reparsed.map(c => [c.subject, c.body, c.author.name])).toEqual([
+      ['Rename the second line', 'Longer explanation\nover two lines.', 'Zoë Q'],
+      ['Ünïcode subject that is rather long', 'Body line.', 'Zoë Q'],
+    ]);
+    expect(reparsed.map(c => c.diff.getAllHunks().map(h => h.lines))).toEqual(
+      commits.map(c => c.diff.getAllHunks().map(h => h.lines)),
+    );
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Patch series support
+ *
+ * Reads the mbox output of `git format-patch --stdout` (or a patch series
+ * saved from email) into one ParsedDiff per commit, and writes hunk groups
+ * back out as a series that `git am` can apply.
+ */
+
+import { Hunk, HunkGroup, PatchAuthor, PatchCommit } from './types.js';
+import { parseDiff } from './parser.js';
+import { generatePatch, withRenameApplied } from './manipulator.js';
+
+/**
+ * Regex to match the mbox separator line that starts each mail
+ * Matches: From 1590b996b876975968c6df266618452f23212ff3 Mon Sep 17 00:00:00 2001
+ */
+const MBOX_SEPARATOR_REGEX = /^From (\S+) \w{3} \w{3} [ \d]?\d \d\d:\d\d:\d\d \d{4}$/;
+
+/**
+ * Regex to match an RFC 2047 encoded word, as git writes non-ASCII headers
+ * Matches: =?UTF-8?q?Zo=C3=AB?= / =?UTF-8?b?Wm/Dqw==?=
+ */
+const ENCODED_WORD_REGEX = /=\?([^?]+)\?([qQbB])\?([^?]*)\?=/g;
+
+/**
+ * Regex to match the "[PATCH v2 3/7]" style prefixes of a subject
+ */
+const SUBJECT_PREFIX_REGEX = /^(?:\s*(?:\[[^\]]*\]|re:))+\s*/i;
+
+/**
+ * Placeholder hash git itself uses in the separator line of generated patches
+ */
+const NULL_HASH = '0'.repeat(40);
+
+/**
+ * Options for writing a patch series
+ */
+export interface SeriesOptions {
+  /** Author of every patch */
+  author: PatchAuthor;
+  /** Author date of every patch (default: now) */
+  date?: Date;
+  /** Subject prefix (default: "PATCH"); numbered "n/m" when there are several patches */
+  subjectPrefix?: string;
+  /** Text after the "-- " signature line (default: "gorgeous-hunks") */
+  signature?: string;
+}
+
+/**
+ * One patch to write: a group of hunks and its commit message
+ */
+export interface SeriesEntry {
+  group: HunkGroup;
+  /** Full commit message; the first line becomes the subject */
+  message: string;
+}
+
+/**
+ * Parse an mbox / format-patch series into its commits, in order
+ * Mails without a diff (such as a cover letter) are skipped.
+ */
+export function parsePatchSeries(mbox: string): PatchCommit[] {
+  const commits: PatchCommit[] = [];
+
+  for (const mail of splitMails(mbox.split('\n'))) {
+    const commit = parseMail(mail.lines, mail.hash);
+    if (commit.diff.files.length > 0) {
+      commits.push(commit);
+    }
+  }
+
+  return commits;
+}
+
+/**
+ * Write hunk groups out as a format-patch series, one mail per group
+ *
+ * Each patch applies on top of the ones before it: once a patch has
+ * renamed or created a file, later patches change it in place.
+ */
+export function formatPatchSeries(entries: SeriesEntry[], options: SeriesOptions): string {
+  const { author, date = new Date(), subjectPrefix = 'PATCH', signature = 'gorgeous-hunks' } = options;
+  // Files an earlier patch already renamed, copied or created
+  const renamed = new Set<string>();
+  const created = new Set<string>();
+
+  return entries.map((entry, i) => {
+    const hunks = entry.group.hunks.flatMap(hunk => afterEarlierPatches(hunk, renamed, created));
+    for (const hunk of entry.group.hunks) {
+      if (hunk.oldFile) renamed.add(hunk.file);
+      if (hunk.fileHeader?.isNew) created.add(hunk.file);
+    }
+
+    const [subject, ...rest] = entry.message.trim().split('\n');
+    const body = rest.join('\n').trim();
+    const prefix = entries.length > 1 ? `[${subjectPrefix} ${i + 1}/${entries.length}]` : `[${subjectPrefix}]`;
+    const needsMime = [author.name, subject, body].some(text => /[^\x00-\x7f]/.test(text));
+
+    const lines = [
+      `From ${NULL_HASH} Mon Sep 17 00:00:00 2001`,
+      `From: ${encodeHeader(author.name)} <${author.email}>`,
+      `Date: ${formatMailDate(date)}`,
+      `Subject: ${prefix} ${encodeHeader(subject.trim())}`,
+    ];
+    if (needsMime) {
+      lines.push('MIME-Version: 1.0', 'Content-Type: text/plain; charset=UTF-8', 'Content-Transfer-Encoding: 8bit');
+    }
+    lines.push('');
+    if (body) {
+      lines.push(body, '');
+    }
+    lines.push('---', '');
+
+    return `${lines.join('\n')}\n${generatePatch(hunks)}-- \n${signature}\n\n`;
+  }).join('\n');
+}
+
+/**
+ * A hunk as it applies after earlier patches of the series: without the
+ * rename or creation they already made, and dropped if it is their rename unit
+ */
+function afterEarlierPatches(hunk: Hunk, renamed: Set<string>, created: Set<string>): Hunk[] {
+  let result = hunk;
+  if (hunk.oldFile && renamed.has(hunk.file)) {
+    if (hunk.kind === 'rename' || hunk.kind === 'copy') return [];
+    result = withRenameApplied(result);
+  }
+  if (result.fileHeader?.isNew && created.has(hunk.file)) {
+    result = { ...result, fileHeader: { ...result.fileHeader, isNew: false, oldMode: result.fileHeader.newMode } };
+  }
+  return [result];
+}
+
+/**
+ * Split an mbox into its mails at the "From <hash> <date>" separator lines
+ */
+function splitMails(lines: string[]): { hash?: string; lines: string[] }[] {
+  const mails: { hash?: string; lines: string[] }[] = [];
+
+  for (const line of lines) {
+    const separator = line.match(MBOX_SEPARATOR_REGEX);
+    if (separator) {
+      mails.push({ hash: separator[1], lines: [] });
+    } else if (mails.length > 0) {
+      mails[mails.length - 1].lines.push(line);
+    } else if (line.trim()) {
+      // A lone patch saved without the mbox separator
+      mails.push({ lines: [line] });
+    }
+  }
+
+  return mails;
+}
+
+/**
+ * Parse one mail: headers, commit message, then the diff
+ */
+function parseMail(lines: string[], hash?: string): PatchCommit {
+  const headerEnd = lines.indexOf('');
+  const headers = parseHeaders(lines.slice(0, headerEnd === -1 ? lines.length : headerEnd));
+  let content = headerEnd === -1 ? [] : lines.slice(headerEnd + 1);
+
+  // The sender may not be the author: "From:" (and "Date:"/"Subject:") lines at
+  // the top of the body take precedence, as with git am
+  const inBodyEnd = content.indexOf('');
+  const inBodyLines = content.slice(0, inBodyEnd);
+  if (inBodyEnd > 0 && inBodyLines.every(line => /^(From|Date|Subject): /.test(line))) {
+    Object.assign(headers, parseHeaders(inBodyLines));
+    content = content.slice(inBodyEnd + 1);
+  }
+
+  // The message ends at the "---" line before the diffstat, or where the diff starts
+  const diffStart = content.findIndex(line => line === '---' || line.startsWith('diff -') || line.startsWith('Index: '));
+  const messageLines = diffStart === -1 ? content : content.slice(0, diffStart);
+  let diffLines = diffStart === -1 ? [] : content.slice(diffStart);
+
+  // Drop the "-- " signature git appends after the diff. A removed "- " line
+  // looks the same, so it only counts when just the version line follows.
+  const signature = diffLines.lastIndexOf('-- ');
+  if (signature !== -1) {
+    const trailer = diffLines.slice(signature + 1).filter(line => line.trim() !== '');
+    if (trailer.length === 1 && !/^[ +\-\\@]/.test(trailer[0])) {
+      diffLines = diffLines.slice(0, signature);
+    }
+  }
+
+  return {
+    ...(hash && hash !== NULL_HASH ? { hash } : {}),
+    author: parseAddress(headers.from ?? ''),
+    ...(headers.date ? { date: headers.date } : {}),
+    subject: (headers.subject ?? '').replace(SUBJECT_PREFIX_REGEX, ''),
+    body: messageLines.join('\n').trim(),
+    diff: parseDiff(diffLines.join('\n')),
+  };
+}
+
+/**
+ * Parse mail header lines into a map of lower-cased names to decoded values
+ * Folded headers continue on lines starting with whitespace.
+ */
+function parseHeaders(lines: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  let current: string | null = null;
+
+  for (const line of lines) {
+    if (/^\s/.test(line) && current) {
+      headers[current] += line.replace(/^\s+/, ' ');
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      current = line.slice(0, colon).toLowerCase();
+      headers[current] = line.slice(colon + 1).trim();
+    }
+  }
+
+  for (const name of Object.keys(headers)) {
+    headers[name] = decodeHeader(headers[name]);
+  }
+  return headers;
+}
+
+/**
+ * Split a From: value like `Jane Doe <jane@example.com>` into name and email
+ */
+function parseAddress(value: string): PatchAuthor {
+  const match = value.match(/^(.*?)\s*<([^>]*)>\s*$/);
+  if (!match) {
+    return { name: '', email: value.trim() };
+  }
+  return { name: match[1].replace(/^"(.*)"$/, '$1'), email: match[2] };
+}
+
+/**
+ * Decode the RFC 2047 encoded words in a header value
+ * Whitespace between adjacent encoded words is not part of the text, and
+ * words in an unknown charset are left encoded.
+ */
+function decodeHeader(value: string): string {
+  return value
+    .replace(/(\?=)\s+(?==\?)/g, '$1')
+    .replace(ENCODED_WORD_REGEX, (word: string, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toLowerCase() === 'b'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(
+          text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_match: string, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+          'latin1',
+        );
+      try {
+        return new TextDecoder(charset.toLowerCase() === 'utf-8' ? 'utf-8' : charset).decode(bytes);
+      } catch {
+        // A charset TextDecoder doesn't know: keep the word as it was written
+        return word;
+      }
+    });
+}
+
+/**
+ * Encode a header value as an RFC 2047 "q" word if it has non-ASCII characters
+ */
+function encodeHeader(value: string): string {
+  if (!/[^\x00-\x7f]/.test(value)) return value;
+
+  let encoded = '';
+  for (const byte of Buffer.from(value, 'utf-8')) {
+    const char = String.fromCharCode(byte);
+    encoded += /[A-Za-z0-9!*+\-/]/.test(char) ? char : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+  }
+  return `=?UTF-8?q?${encoded}?=`;
+}
+
+/**
+ * Format a date the way git writes mail dates: "Sun, 18 Oct 2026 16:49:06 +0000"
+ */
+function formatMailDate(date: Date): string {
+  return date.toUTCString().replace(/GMT$/, '+0000');
+}
@@ -0,0 +1,112 @@
+import { parseDiff } from '../src/parser';
+import { selectHunks, selectHunksWithLines } from '../src/manipulator';
+import { computeStableId, mapHunkIds, translateHunkId } from '../src/stable-ids';
+
+const header = `diff --git a/app.js b/app.js
+--- a/app.js
++++ b/app.js
+`;
+
+// Three separate changes to app.js
+const before = parseDiff(`${header}@@ -1,4 +1,4 @@
+-const a = 1;
++const a = 2;
+ line 2
+ line 3
+ line 4
+@@ -20,3 +20,4 @@ function load()
+ line 20
++  log('loading');
+ line 21
+ line 22
+@@ -40,3 +41,3 @@ function save()
+ line 40
+-  write(x);
++  write(y);
+ line 42
+`);
+
+// The same working tree after staging the first change: the others are renumbered
+const after = parseDiff(`${header}@@ -20,3 +20,4 @@ function load()
+ line 20
++  log('loading');
+ line 21
+ line 22
+@@ -40,3 +41,3 @@ function save()
+ line 40
+-  write(x);
++  write(y);
+ line 42
+`);
+
+describe('stable IDs', () => {
+  it('should be assigned by the parser', () => {
+    expect(before.getAllHunks().map(h => h.stableId)).toEqual([
+      expect.stringMatching(/^app\.js@[0-9a-f]{10}$/),
+      expect.stringMatching(/^app\.js@[0-9a-f]{10}$/),
+      expect.stringMatching(/^app\.js@[0-9a-f]{10}$/),
+    ]);
+  });
+
+  it('should survive re-diffing even though positional IDs shift', () => {
+    expect(before.getHunk('app.js:1')!.stableId).toBe(after.getHunk('app.js:0')!.stableId);
+    expect(before.getHunk('app.js:2')!.stableId).toBe(after.getHunk('app.js:1')!.stableId);
+  });
+
+  it('should not depend on line numbers or context', () => {
+    const hunk = before.getHunk('app.js:2')!;
+    const moved = { ...hunk, oldStart: 99, newStart: 99, lines: hunk.lines.filter(l => l.type !== 'context') };
+    expect(computeStableId(moved)).toBe(computeStableId(hunk));
+  });
+
+  it('should number identical changes within a file', () => {
+    const diff = parseDiff(`${header}@@ -1 +1,2 @@
+ a
++log();
+@@ -10 +11,2 @@
+ b
++log();
+`);
+    const [first, second] = diff.getAllHunks();
+    expect(second.stableId).toBe(`${first.stableId}#2`);
+  });
+
+  it('should keep the IDs of whole-file units', () => {
+    const diff = parseDiff(`diff --git a/run.sh b/run.sh
+old mode 100644
+new mode 100755
+`);
+    expect(diff.getAllHunks()[0].stableId).toBe('run.sh:mode');
+  });
+
+  it('should find hunks by either ID', () => {
+    const stableId = before.getHunk('app.js:1')!.stableId!;
+
+    expect(before.getHunk(stableId)?.id).toBe('app.js:1');
+    expect(selectHunks(before, [stableId]).map(h => h.id)).toEqual(['app.js:1']);
+    expect(selectHunksWithLines(before, [`${stableId}:1`])[0].lines.filter(l => l.type === 'add')).toHaveLength(1);
+  });
+});
+
+describe('mapHunkIds', () => {
+  it('should map both IDs of surviving hunks to their new positional IDs', () => {
+    const mapping = mapHunkIds(before, after);
+    const stableId = before.getHunk('app.js:2')!.stableId!;
+
+    expect(mapping.get('app.js:1')).toBe('app.js:0');
+    expect(mapping.get('app.js:2')).toBe('app.js:1');
+    expect(mapping.get(stableId)).toBe('app.js:1');
+  });
+
+  it('should leave out hunks that are gone', () => {
+    expect(mapHunkIds(before, after).has('app.js:0')).toBe(false);
+  });
+});
+
+describe('translateHunkId', () => {
+  it('should translate a single ID', () => {
+    expect(translateHunkId('app.js:2', before, after)).toBe('app.js:1');
+    expect(translateHunkId('app.js:0', before, after)).toBeUndefined();
+    expect(translateHunkId('missing.js:0', before, after)).toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Content-addressed hunk IDs
+ *
+ * Positional IDs ("src/app.js:2") shift whenever an earlier hunk of the file
+ * is staged and the diff is taken again. Stable IDs are derived from the
+ * file path and the changed lines instead, so the same change keeps its
+ * stable ID across re-diffs, wherever it moves to in the file.
+ */
+
+import { createHash } from 'crypto';
+import { Hunk, ParsedDiff } from './types.js';
+
+/**
+ * Compute the stable ID of a hunk, e.g. "src/app.js@3f2a9c1b0d"
+ *
+ * Only the added and removed lines count: line numbers and context lines
+ * change when neighbouring hunks are staged. Whole-file units (mode,
+ * rename, copy, binary) already have IDs that don't depend on position.
+ */
+export function computeStableId(hunk: Hunk): string {
+  if (hunk.kind) return hunk.id;
+
+  const hash = createHash('sha1').update(hunk.file).update('\0');
+  for (const line of hunk.lines) {
+    if (line.type === 'context') continue;
+    hash.update(`${line.type === 'add' ? '+' : '-'}${line.content}${line.noNewlineAtEof ? '\0' : ''}\n`);
+  }
+  return `${hunk.file}@${hash.digest('hex').slice(0, 10)}`;
+}
+
+/**
+ * Set the stable ID of each hunk of one file
+ * Identical changes in the same file are numbered in order: "@3f2a9c1b0d#2".
+ */
+export function assignStableIds(hunks: Hunk[]): void {
+  const seen = new Map<string, number>();
+  for (const hunk of hunks) {
+    const base = computeStableId(hunk);
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    hunk.stableId = count === 1 ? base : `${base}#${count}`;
+  }
+}
+
+/**
+ * Map the hunk IDs of an earlier parse of the working tree to those of a
+ * later one, e.g. before and after staging some hunks.
+ *
+ * Both positional and stable IDs of `previous` are keys; the values are the
+ * positional IDs in `current`. Hunks that were staged, or changed since,
+ * have no entry.
+ */
+export function mapHunkIds(previous: ParsedDiff, current: ParsedDiff): Map<string, string> {
+  const currentByStableId = new Map<string, string>();
+  for (const hunk of current.getAllHunks()) {
+    if (hunk.stableId) currentByStableId.set(hunk.stableId, hunk.id);
+  }
+
+  const mapping = new Map<string, string>();
+  for (const hunk of previous.getAllHunks()) {
+    const currentId = hunk.stableId && currentByStableId.get(hunk.stableId);
+    if (currentId) {
+      mapping.set(hunk.id, currentId);
+      mapping.set(hunk.stableId!, currentId);
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Translate one hunk ID (positional or stable) from an earlier parse to the
+ * positional ID of the same change in a later parse
+ */
+export function translateHunkId(id: string, previous: ParsedDiff, current: ParsedDiff): string | undefined {
+  const hunk = previous.getHunk(id);
+  if (!hunk?.stableId) return undefined;
+  return current.getHunk(hunk.stableId)?.id;
+}
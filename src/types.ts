@@ -6,6 +6,14 @@ export interface DiffLine {
   type: 'context' | 'add' | 'remove';
   /** The raw content of the line (without the prefix) */
   content: string;
+  /** True when this line is the last in its file and has no trailing newline ("\ No newline at end of file") */
+  noNewlineAtEof?: boolean;
+  /**
+   * Combined diffs only: whether each parent has this line.
+   * `type` describes the line relative to the merge result ('remove' means
+   * it is in some parents but not in the result).
+   */
+  inParents?: boolean[];
 }
 
 /**
@@ -14,9 +22,13 @@ export interface DiffLine {
 export interface Hunk {
   /** Unique identifier for this hunk, e.g., "src/app.js:2" */
   id: string;
+  /** Identifier derived from the file and the changed lines, e.g. "src/app.js@3f2a9c1b0d", which survives re-diffing (set by the parser) */
+  stableId?: string;
   /** The file this hunk belongs to */
   file: string;
-  /** Zero-based index of this hunk within its file */
+  /** The file's path before the change, when it was renamed or copied */
+  oldFile?: string;
+  /** Zero-based index of this hunk within its file (-1 for rename, copy and mode units) */
   index: number;
   /** The raw hunk header line, e.g., "@@ -1,8 +1,11 @@ function foo()" */
   header: string;
@@ -32,12 +44,38 @@ export interface Hunk {
   lines: DiffLine[];
   /** Optional context extracted from the header (e.g., function name) */
   context?: string;
+  /** Set for synthetic units that stand for a whole-file change rather than a block of lines */
+  kind?: HunkKind;
+  /** File-level metadata, so the hunk can be emitted as a patch on its own (set by the parser) */
+  fileHeader?: FileHeader;
+  /** Combined diffs only: the range in each parent; oldStart/oldCount repeat the first parent's */
+  parentRanges?: LineRange[];
 }
 
 /**
- * Represents all changes to a single file
+ * A range of lines in one version of a file
+ */
+export interface LineRange {
+  /** First line of the range */
+  start: number;
+  /** Number of lines in the range */
+  count: number;
+}
+
+/**
+ * Kinds of synthetic, non-splittable hunks
+ * - 'binary': the whole content change of a binary file
+ * - 'mode': a file mode change (e.g. chmod +x), ID "<path>:mode"
+ * - 'rename': moving the file to its new path without edits, ID "<path>:rename"
+ * - 'copy': creating the file as a copy of its source without edits, ID "<path>:copy"
+ * - 'submodule': moving a submodule to another commit (its "Subproject commit" hunk)
+ */
+export type HunkKind = 'binary' | 'mode' | 'rename' | 'copy' | 'submodule';
+
+/**
+ * File-level metadata from the extended header lines of a diff
  */
-export interface FileDiff {
+export interface FileHeader {
   /** The old file path (before rename, or same as newPath) */
   oldPath: string;
   /** The new file path (after rename, or same as oldPath) */
@@ -48,10 +86,74 @@ export interface FileDiff {
   isDeleted: boolean;
   /** Whether this file was renamed */
   isRenamed: boolean;
+  /** Whether this file was created as a copy of oldPath */
+  isCopied?: boolean;
+  /** Similarity to oldPath for renames and copies, as a percentage */
+  similarity?: number;
+  /** File mode before the change, e.g. "100644", "100755" or "120000" (symlink) */
+  oldMode?: string;
+  /** File mode after the change (the mode of a new file) */
+  newMode?: string;
+  /** Whether git reported this file as binary */
+  isBinary?: boolean;
+  /** Blob hash of the old content, from the "index" line */
+  oldHash?: string;
+  /** Blob hash of the new content, from the "index" line */
+  newHash?: string;
+  /** The binary payload, present when the diff was made with --binary */
+  binary?: BinaryPatch;
+  /** Whether this is a combined diff of a merge ("diff --cc"), comparing the result with each parent */
+  isCombined?: boolean;
+  /** Combined diffs only: blob hash of each parent's content */
+  parentHashes?: string[];
+  /** Combined diffs only: file mode in each parent */
+  parentModes?: string[];
+  /** Set when the path is a submodule (a gitlink, mode 160000) */
+  submodule?: SubmoduleChange;
+}
+
+/**
+ * The commits a submodule moved between
+ */
+export interface SubmoduleChange {
+  /** Full hash of the commit before the change (absent for an added submodule) */
+  oldCommit?: string;
+  /** Full hash of the commit after the change (absent for a removed submodule) */
+  newCommit?: string;
+  /** Whether the submodule's checkout has changes of its own ("-dirty"), which can't be staged from here */
+  dirty?: boolean;
+}
+
+/**
+ * Represents all changes to a single file
+ */
+export interface FileDiff extends FileHeader {
   /** The hunks in this file */
   hunks: Hunk[];
 }
 
+/**
+ * A "GIT binary patch" section, as produced by `git diff --binary`
+ */
+export interface BinaryPatch {
+  /** Turns the old content into the new content */
+  forward: BinaryPatchBlock;
+  /** Turns the new content back into the old content (git always writes one) */
+  reverse?: BinaryPatchBlock;
+}
+
+/**
+ * One literal or delta block of a binary patch
+ */
+export interface BinaryPatchBlock {
+  /** 'literal' carries the full content, 'delta' a delta against the other side */
+  method: 'literal' | 'delta';
+  /** Size of the inflated data in bytes */
+  size: number;
+  /** The base85 data lines, verbatim (each starts with its length character) */
+  data: string[];
+}
+
 /**
  * A complete parsed diff, potentially spanning multiple files
  */
@@ -60,18 +162,82 @@ export interface ParsedDiff {
   files: FileDiff[];
   /** Get all hunks across all files, flattened */
   getAllHunks(): Hunk[];
-  /** Get a hunk by its ID */
+  /** Get a hunk by its positional or stable ID */
   getHunk(id: string): Hunk | undefined;
   /** Get hunks for a specific file */
   getFileHunks(filePath: string): Hunk[];
+  /** Problems found in the input, in line order (only set when parsing with `strict`) */
+  diagnostics?: ParseDiagnostic[];
+}
+
+/**
+ * A problem found while parsing a diff in strict mode
+ */
+export interface ParseDiagnostic {
+  /** 1-based line number in the input */
+  line: number;
+  /** 'error' for input that can't be staged as intended, 'warning' for harmless oddities */
+  severity: 'error' | 'warning';
+  code: ParseDiagnosticCode;
+  /** Human-readable description */
+  message: string;
+  /** The hunk the problem is in, if any */
+  hunkId?: string;
 }
 
+/**
+ * Kinds of parse diagnostics
+ * - 'count-mismatch': a hunk's body doesn't match the line counts in its header
+ * - 'truncated-hunk': a hunk ends before its header's line counts are used up
+ * - 'orphan-hunk': a hunk header with no file header before it
+ * - 'invalid-hunk-header': a line starting with "@@" that isn't a valid hunk header
+ * - 'unknown-prefix': a line inside a hunk that isn't context, an addition or a removal
+ * - 'misplaced-eof-marker': "\ No newline at end of file" with no line before it
+ */
+export type ParseDiagnosticCode =
+  | 'count-mismatch'
+  | 'truncated-hunk'
+  | 'orphan-hunk'
+  | 'invalid-hunk-header'
+  | 'unknown-prefix'
+  | 'misplaced-eof-marker';
+
 /**
  * Options for parsing a diff
  */
 export interface ParseOptions {
-  /** Number of context lines (default: 3, matching git's default) */
+  /**
+   * Re-context hunks to this many context lines, as `git diff -U<n>` would
+   * (default: keep the diff's own context). Growing beyond the context the
+   * diff already shows needs `contentProvider`.
+   */
   contextLines?: number;
+  /** Supplies file contents for growing context with `contextLines` */
+  contentProvider?: ContentProvider;
+  /**
+   * Leading directories to strip from the "---"/"+++" names of non-git
+   * diffs, as with `patch -p` (default: 1, for "a/" and "b/" style names)
+   */
+  strip?: number;
+  /** Check hunk bodies against their headers and report problems as `diagnostics` (parseDiff only) */
+  strict?: boolean;
+}
+
+/**
+ * Supplies the full content of files, so hunks can be given more context
+ * than the diff carries
+ */
+export interface ContentProvider {
+  /** The file's content before ('old') or after ('new') the change, or null if unavailable */
+  readFile(path: string, version: 'old' | 'new'): string | null;
+}
+
+/**
+ * Lists the commits a submodule moved across, for describing its pointer change
+ */
+export interface SubmoduleLogProvider {
+  /** One line per commit, e.g. "> a9132d2 Fix parser" ("<" for commits left behind), or null if unavailable */
+  getLog(path: string, change: SubmoduleChange): string[] | null;
 }
 
 /**
@@ -86,6 +252,32 @@ export interface HunkGroup {
   toPatch(): string;
 }
 
+/**
+ * The author of a commit in a patch series
+ */
+export interface PatchAuthor {
+  name: string;
+  email: string;
+}
+
+/**
+ * One commit of a git format-patch / mbox patch series
+ */
+export interface PatchCommit {
+  /** Commit hash from the mbox "From <hash>" separator line, if any */
+  hash?: string;
+  /** Author from the From: header (or an in-body From: line) */
+  author: PatchAuthor;
+  /** Date header, as written in the mail */
+  date?: string;
+  /** Commit subject, without the "[PATCH n/m]" prefix */
+  subject: string;
+  /** Rest of the commit message, without the trailing diff */
+  body: string;
+  /** The commit's changes */
+  diff: ParsedDiff;
+}
+
 /**
  * Result of applying a patch
  */